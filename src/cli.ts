@@ -0,0 +1,320 @@
+#!/usr/bin/env node
+
+import { getConfig, parseArgs, type CliArgs, type Config, type LogSourceSpec } from './config.js';
+import { formatProblem, formatEntry, formatStatus, toEntryView } from './format.js';
+import { getStatus, queryErrors, type ErrorPage } from './log-queries.js';
+import { LogStore, createLogMatcher } from './log-store.js';
+import { LogSources } from './log-sources.js';
+import { QueryError } from './query.js';
+import type { StatusReport } from './schemas.js';
+import type { ErrorCategory, LogEntry, LogFilter, LogType } from './types.js';
+
+const USAGE = `Usage: repack-logs-mcp [command] [log-source...] [options]
+
+Commands:
+  serve               Start the MCP server on stdio (default)
+  tail                Follow logs as they arrive
+  status              Print watcher, server and log statistics
+  errors              Print recent errors and warnings
+  help                Show this help
+
+Log source (tail, status, errors):
+  [log-source...]     Read these log files or globs, e.g. "apps/*/.repack-logs.json";
+                      prefix one with label= to name its source, e.g. host=apps/host/.repack-logs.json
+  --server [url]      Read from a running server (default: http://localhost:$REPACK_RUNTIME_PORT)
+                      Without either, a running server is used if one answers, else the log files.
+
+Filters (tail, errors):
+  --types <list>      Comma-separated log types, e.g. error,warn (tail only)
+  --issuer <name>     Only this issuer/tag
+  --search <text>     Search in messages
+  --platform <name>   Only this platform (e.g. ios, android)
+  --source <name>     Only this log source (a label, or the directory of a globbed file)
+  --device <id|name>  Only this device ID, or devices whose name contains this
+  --session <id>      Only this app session
+  --category <name>   Only build errors of this category, e.g. missing-module
+  --query <expr>      Query expression (see README)
+
+Output:
+  -n, --lines <n>     Entries printed before following (tail, default: 10)
+  --limit <n>         Entries printed (errors, default: 20)
+  --json              Print JSON (one entry per line for tail)`;
+
+type Source =
+  | { kind: 'server'; url: string }
+  | { kind: 'file'; specs: LogSourceSpec[] };
+
+const TYPE_COLORS: Record<LogType, string> = {
+  error: '31',
+  warn: '33',
+  success: '32',
+  debug: '90',
+  progress: '36',
+  info: '0',
+};
+
+const useColor = process.stdout.isTTY && !process.env.NO_COLOR;
+
+function paint(text: string, code: string): string {
+  return useColor && code !== '0' ? `\x1b[${code}m${text}\x1b[0m` : text;
+}
+
+/**
+ * Color an entry's first line by type and dim its detail lines.
+ */
+function colorize(text: string, type: LogType): string {
+  const [first, ...rest] = text.split('\n');
+  return [paint(first, TYPE_COLORS[type]), ...rest.map(line => paint(line, '2'))].join('\n');
+}
+
+function optionString(args: CliArgs, name: string): string | undefined {
+  const value = args.options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function optionNumber(args: CliArgs, name: string, fallback: number): number {
+  const value = parseInt(optionString(args, name) ?? '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+function parseFilter(args: CliArgs): LogFilter {
+  const types = optionString(args, 'types')?.split(',').map(type => type.trim()).filter(Boolean);
+  return {
+    types: types as LogType[] | undefined,
+    issuer: optionString(args, 'issuer'),
+    search: optionString(args, 'search'),
+    platform: optionString(args, 'platform'),
+    source: optionString(args, 'source'),
+    device: optionString(args, 'device'),
+    session: optionString(args, 'session'),
+    category: optionString(args, 'category') as ErrorCategory | undefined,
+    query: optionString(args, 'query'),
+  };
+}
+
+function toSearchParams(filter: LogFilter & { limit?: number }): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  return params;
+}
+
+async function isServerRunning(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${url}/health`, { signal: AbortSignal.timeout(500) });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the log source: an explicit server or files, else a running
+ * server on the configured port, else the configured log files.
+ */
+async function resolveSource(args: CliArgs, config: Config): Promise<Source> {
+  const defaultUrl = `http://localhost:${config.runtimePort}`;
+  const server = args.options.server;
+
+  if (server) return { kind: 'server', url: typeof server === 'string' ? server.replace(/\/$/, '') : defaultUrl };
+  if (args.logSources.length > 0) return { kind: 'file', specs: config.logSources };
+  if (await isServerRunning(defaultUrl)) return { kind: 'server', url: defaultUrl };
+  return { kind: 'file', specs: config.logSources };
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  const body = await response.json() as T & { error?: string };
+  if (!response.ok) throw new Error(body.error ?? `${response.status} ${response.statusText}`);
+  return body;
+}
+
+/**
+ * Read log files once into a LogStore, through the same watchers the
+ * server uses.
+ */
+async function loadFiles(specs: LogSourceSpec[], config: Config): Promise<{ store: LogStore; sources: LogSources }> {
+  const store = new LogStore(config.maxLogs, config.maxDuplicates);
+  const sources = new LogSources(specs, store);
+  await sources.start();
+  await sources.stop();
+  return { store, sources };
+}
+
+async function formatForTerminal(entry: LogEntry, json: boolean): Promise<string> {
+  if (json) return JSON.stringify(entry);
+  const view = await toEntryView(entry, 'normal');
+  return colorize(formatEntry(view), entry.type);
+}
+
+/**
+ * Follow a server's GET /stream, reconnecting with Last-Event-ID
+ * when the connection drops.
+ */
+async function tailServer(url: string, filter: LogFilter, lines: number, print: (entry: LogEntry) => void): Promise<void> {
+  let lastEventId: string | undefined;
+
+  for (;;) {
+    const params = toSearchParams({ ...filter, limit: lastEventId ? undefined : lines });
+    try {
+      const response = await fetch(`${url}/stream?${params}`, {
+        headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+      });
+      if (response.status === 400) {
+        const body = await response.json() as { error: string };
+        throw new QueryError(body.error.replace(/^Invalid query: /, ''));
+      }
+      if (!response.ok || !response.body) throw new Error(`${response.status} ${response.statusText}`);
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const chunk of response.body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const event = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+
+          const fields = new Map<string, string>();
+          for (const line of event.split('\n')) {
+            const match = line.match(/^(\w+): ?(.*)$/);
+            if (match) fields.set(match[1], match[2]);
+          }
+
+          if (fields.has('id')) lastEventId = fields.get('id');
+          const data = fields.get('data');
+          if (!data) continue;
+
+          if (fields.get('event') === 'dropped') {
+            const { count } = JSON.parse(data) as { count: number };
+            console.error(paint(`... ${count} entries dropped (reading too slowly)`, '2'));
+          } else {
+            print(JSON.parse(data));
+          }
+        }
+      }
+    } catch (err) {
+      if (err instanceof QueryError) throw err;
+    }
+
+    console.error(paint(`Lost connection to ${url}, reconnecting...`, '2'));
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+}
+
+async function tail(args: CliArgs, config: Config): Promise<void> {
+  const source = await resolveSource(args, config);
+  const filter = parseFilter(args);
+  const lines = optionNumber(args, 'lines', 10);
+  const json = args.options.json === true;
+
+  // Print in arrival order even though formatting is async
+  let output = Promise.resolve();
+  const print = (entry: LogEntry) => {
+    output = output
+      .then(() => formatForTerminal(entry, json))
+      .then(text => console.log(text));
+  };
+
+  if (source.kind === 'server') {
+    console.error(paint(`Following ${source.url}/stream`, '2'));
+    await tailServer(source.url, filter, lines, print);
+    return;
+  }
+
+  const matches = createLogMatcher(filter);
+  const store = new LogStore(config.maxLogs, config.maxDuplicates);
+  const sources = new LogSources(source.specs, store);
+  await sources.start();
+
+  console.error(paint(`Following ${sources.patterns.join(', ')}`, '2'));
+  if (lines > 0) {
+    store.get({ ...filter, limit: lines }).forEach(print);
+  }
+  store.on('entry', entry => {
+    if (matches(entry)) print(entry);
+  });
+
+  process.on('SIGINT', async () => {
+    await sources.stop();
+    process.exit(0);
+  });
+}
+
+async function status(args: CliArgs, config: Config): Promise<void> {
+  const source = await resolveSource(args, config);
+  const platform = optionString(args, 'platform');
+  const logSource = optionString(args, 'source');
+
+  let report: StatusReport;
+  if (source.kind === 'server') {
+    report = await fetchJson<StatusReport>(`${source.url}/status?${toSearchParams({ platform, source: logSource })}`);
+  } else {
+    const { store, sources } = await loadFiles(source.specs, config);
+    report = getStatus({ store, sources, runtimePort: config.runtimePort }, platform, logSource);
+  }
+
+  console.log(args.options.json ? JSON.stringify(report, null, 2) : formatStatus(report));
+}
+
+async function errors(args: CliArgs, config: Config): Promise<void> {
+  const source = await resolveSource(args, config);
+  // Errors are always errors and warnings, so `--types` does not apply
+  const filter = { ...parseFilter(args), types: undefined };
+  const limit = optionNumber(args, 'limit', 20);
+
+  let page: ErrorPage;
+  if (source.kind === 'server') {
+    page = await fetchJson<ErrorPage>(`${source.url}/errors?${toSearchParams({ ...filter, limit })}`);
+  } else {
+    const { store } = await loadFiles(source.specs, config);
+    page = await queryErrors(store, { ...filter, limit });
+  }
+
+  if (args.options.json) {
+    console.log(JSON.stringify(page, null, 2));
+    return;
+  }
+
+  if (page.entries.length === 0) {
+    console.log('No errors or warnings found.');
+    return;
+  }
+
+  console.log(`Found ${page.errorCount} error(s) and ${page.warningCount} warning(s):\n`);
+  for (const entry of page.entries) {
+    console.log(colorize(formatProblem(await toEntryView(entry, 'normal')), entry.type) + '\n');
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.command === 'help' || args.options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (args.command === 'serve') {
+    await import('./index.js');
+    return;
+  }
+
+  const config = getConfig();
+  try {
+    if (args.command === 'tail') await tail(args, config);
+    if (args.command === 'status') await status(args, config);
+    if (args.command === 'errors') await errors(args, config);
+  } catch (err) {
+    if (!(err instanceof QueryError)) throw err;
+    console.error(`Invalid query: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
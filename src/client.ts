@@ -10,6 +10,18 @@
  *   import { createLogger } from 'repack-logs-mcp/client';
  *   const log = createLogger('MyComponent');
  *   log.info('Hello world');
+ *
+ * CRASHES - Report fatal errors and unhandled promise rejections:
+ *   import { enableErrorCapture } from 'repack-logs-mcp/client';
+ *   enableErrorCapture();
+ *
+ * NETWORK - Record fetch/XMLHttpRequest calls (opt-in):
+ *   import { enableNetworkCapture } from 'repack-logs-mcp/client';
+ *   enableNetworkCapture();
+ *
+ * HOT RELOADING - Report applied and failed hot updates and full reloads:
+ *   import { enableHmrReporting } from 'repack-logs-mcp/client';
+ *   enableHmrReporting(module.hot);
  */
 
 export interface LoggerOptions {
@@ -21,8 +33,38 @@ export interface LoggerOptions {
   batched?: boolean;
   /** Batch interval in ms (default: 1000) */
   batchInterval?: number;
+  /** Logs kept while the server is unreachable before the oldest are dropped (configure() only; default: 1000) */
+  maxBufferSize?: number;
   /** Whether logging is enabled (default: __DEV__ or true) */
   enabled?: boolean;
+  /** App platform reported with each log (default: detected from react-native) */
+  platform?: string;
+  /** Stable ID of this device (configure() only; default: generated and persisted via `storage`) */
+  deviceId?: string;
+  /** Human-readable device name (configure() only; default: brand and model on Android) */
+  deviceName?: string;
+  /** App version reported with each log (configure() only) */
+  appVersion?: string;
+  /** Storage used to persist the generated device ID, e.g. AsyncStorage (configure() only) */
+  storage?: DeviceIdStorage;
+}
+
+/**
+ * Minimal async key-value storage, compatible with AsyncStorage.
+ */
+export interface DeviceIdStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+/** Identity sent once per request; the server stamps it on every log */
+interface DeviceIdentity {
+  deviceId: string;
+  deviceName?: string;
+  platform?: string;
+  osVersion?: string;
+  appVersion?: string;
+  sessionId: string;
 }
 
 export interface LogEntry {
@@ -33,6 +75,46 @@ export interface LogEntry {
   data?: unknown;
   file?: string;
   line?: number;
+  platform?: string;
+  /** Raw stack of a reported error */
+  stack?: string;
+  errorName?: string;
+  /** The error reached the global handler as fatal: the app is about to crash */
+  isFatal?: boolean;
+  /** React component stack, for errors caught by an error boundary */
+  componentStack?: string;
+  /** Set on network entries, see enableNetworkCapture() */
+  network?: NetworkRequest;
+  /** Set on hot update and reload events, see enableHmrReporting() */
+  hmr?: HmrEvent;
+}
+
+export interface NetworkRequest {
+  method: string;
+  url: string;
+  /** Missing when no response arrived */
+  status?: number;
+  duration: number;
+  requestSize?: number;
+  responseSize?: number;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  requestBody?: string;
+  responseBody?: string;
+  error?: string;
+}
+
+export interface HmrEvent {
+  /** Loaded a bundle, applied or failed a hot update, or about to reload */
+  event: 'load' | 'applied' | 'failed' | 'reload';
+  /** Compilation hash of the code running after the event */
+  hash?: string;
+  /** Hash before a hot update */
+  previousHash?: string;
+  /** HMR status that ended a failed update */
+  status?: string;
+  /** Reason passed to DevSettings.reload() */
+  reason?: string;
 }
 
 interface Logger {
@@ -50,6 +132,141 @@ let globalPassthrough = true;
 let logBuffer: LogEntry[] = [];
 let flushTimer: ReturnType<typeof setTimeout> | null = null;
 let batchInterval = 1000;
+let maxBufferSize = 1000;
+/** Failed sends in a row, for the retry backoff */
+let failedAttempts = 0;
+let flushing = false;
+/** A reported error is waiting: flush as soon as the current flush is done */
+let urgentFlush = false;
+/** Server the pending retry or AppState flush sends to */
+let flushServerUrl = globalServerUrl;
+let appStateWatched = false;
+/** Logs dropped from a full buffer, reported with the next delivered batch */
+let droppedCount = 0;
+let droppedByType: Partial<Record<LogEntry['type'], number>> = {};
+
+const MAX_RETRY_DELAY = 30000;
+let globalPlatform = detectPlatform();
+let globalDeviceId: string | undefined;
+let globalDeviceName: string | undefined;
+let globalAppVersion: string | undefined;
+let globalStorage: DeviceIdStorage | undefined;
+let identity: Promise<DeviceIdentity> | null = null;
+
+const DEVICE_ID_KEY = 'repack-logs-mcp:deviceId';
+
+/** New on every app launch, so logs can be told apart per run */
+const sessionId = randomId();
+
+function randomId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * Read Platform.OS from react-native when it is available.
+ */
+function detectPlatform(): string | undefined {
+  return reactNativePlatform()?.OS;
+}
+
+/** The parts of React Native's Platform module the client reads */
+interface ReactNativePlatform {
+  OS: string;
+  Version?: string | number;
+  constants?: { Brand?: string; Model?: string; Release?: string };
+}
+
+/** The parts of react-native the client uses */
+interface ReactNativeModule {
+  Platform?: ReactNativePlatform;
+  Settings?: { get(key: string): unknown; set(values: Record<string, unknown>): void };
+  AppState?: { addEventListener(type: 'change', listener: (state: string) => void): unknown };
+  DevSettings?: { reload(reason?: string): void };
+}
+
+let reactNativeWarned = false;
+
+/**
+ * Load react-native, or undefined outside React Native. The client is an
+ * ES module that loads react-native with `require()`, so the app's bundler
+ * has to handle CommonJS in it; when it does not, warn once, since platform
+ * detection, AppState flushing, the persisted device ID and reload reporting
+ * are then off.
+ */
+function loadReactNative(): ReactNativeModule | undefined {
+  try {
+    return require('react-native');
+  } catch (err) {
+    const inReactNative = typeof navigator !== 'undefined' && navigator.product === 'ReactNative';
+    if (inReactNative && !reactNativeWarned) {
+      reactNativeWarned = true;
+      // originalConsole is not set up yet when this runs at module load
+      console.warn(
+        '[repack-logs-mcp] Could not load react-native; platform detection, AppState flushing, ' +
+          'the persisted device ID and reload reporting are off. Bundle repack-logs-mcp/client ' +
+          "with a rule that allows require() (e.g. type: 'javascript/auto').",
+        err
+      );
+    }
+    return undefined;
+  }
+}
+
+function reactNativePlatform(): ReactNativePlatform | undefined {
+  return loadReactNative()?.Platform;
+}
+
+/**
+ * Read a device ID persisted by an earlier launch, or persist a new one.
+ * Uses `storage` when configured, else iOS Settings; without either the
+ * ID only lasts until the app restarts.
+ */
+async function loadDeviceId(): Promise<string> {
+  if (globalStorage) {
+    const stored = await globalStorage.getItem(DEVICE_ID_KEY);
+    if (stored) return stored;
+    const deviceId = randomId();
+    await globalStorage.setItem(DEVICE_ID_KEY, deviceId);
+    return deviceId;
+  }
+
+  try {
+    const Settings = loadReactNative()?.Settings;
+    const stored = Settings?.get(DEVICE_ID_KEY);
+    if (typeof stored === 'string') return stored;
+    const deviceId = randomId();
+    Settings?.set({ [DEVICE_ID_KEY]: deviceId });
+    return deviceId;
+  } catch {
+    return randomId();
+  }
+}
+
+async function resolveIdentity(): Promise<DeviceIdentity> {
+  const platform = reactNativePlatform();
+  const constants = platform?.constants ?? {};
+  const deviceId = globalDeviceId ?? await loadDeviceId().catch(() => randomId());
+  const deviceName = globalDeviceName
+    ?? ([constants.Brand, constants.Model].filter(Boolean).join(' ') || undefined);
+  const osVersion = constants.Release ?? platform?.Version;
+
+  return {
+    deviceId,
+    sessionId,
+    ...(deviceName && { deviceName }),
+    ...(globalPlatform && { platform: globalPlatform }),
+    ...(osVersion !== undefined && { osVersion: String(osVersion) }),
+    ...(globalAppVersion && { appVersion: globalAppVersion }),
+  };
+}
+
+/**
+ * Get this device's identity, resolved once and cached.
+ */
+function getIdentity(): Promise<DeviceIdentity> {
+  if (!identity) identity = resolveIdentity();
+  return identity;
+}
 
 /**
  * Configure the global logger settings.
@@ -59,6 +276,14 @@ export function configure(options: LoggerOptions): void {
   if (options.enabled !== undefined) globalEnabled = options.enabled;
   if (options.passthrough !== undefined) globalPassthrough = options.passthrough;
   if (options.batchInterval) batchInterval = options.batchInterval;
+  if (options.maxBufferSize) maxBufferSize = options.maxBufferSize;
+  if (options.platform) globalPlatform = options.platform;
+  if (options.deviceId) globalDeviceId = options.deviceId;
+  if (options.deviceName) globalDeviceName = options.deviceName;
+  if (options.appVersion) globalAppVersion = options.appVersion;
+  if (options.storage) globalStorage = options.storage;
+  // Re-resolve with the new settings on the next send
+  identity = null;
 }
 
 /**
@@ -69,6 +294,7 @@ export function createLogger(tag: string, options?: LoggerOptions): Logger {
   const passthrough = options?.passthrough ?? globalPassthrough;
   const enabled = options?.enabled ?? globalEnabled;
   const batched = options?.batched ?? true;
+  const platform = options?.platform ?? globalPlatform;
 
   const sendLog = (entry: LogEntry) => {
     if (!enabled) return;
@@ -87,12 +313,7 @@ export function createLogger(tag: string, options?: LoggerOptions): Logger {
     }
 
     if (batched) {
-      logBuffer.push(entry);
-      if (!flushTimer) {
-        flushTimer = setTimeout(() => {
-          flushLogs(serverUrl);
-        }, batchInterval);
-      }
+      enqueue(serverUrl, entry);
     } else {
       sendSingleLog(serverUrl, entry);
     }
@@ -103,6 +324,7 @@ export function createLogger(tag: string, options?: LoggerOptions): Logger {
     message,
     tag,
     timestamp: new Date().toISOString(),
+    ...(platform && { platform }),
     ...(data !== undefined && { data: serializeData(data) }),
   });
 
@@ -133,37 +355,122 @@ function serializeData(data: unknown): unknown {
   }
 }
 
+/**
+ * POST to the server, bypassing network capture so the client's own
+ * requests are not logged.
+ */
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await withoutCapture(() => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+}
+
 async function sendSingleLog(serverUrl: string, entry: LogEntry): Promise<void> {
   try {
-    await fetch(`${serverUrl}/log`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(entry),
-    });
+    await postJson(`${serverUrl}/log`, { ...entry, device: await getIdentity() });
   } catch {
-    // Silently fail - don't break the app if logging fails
+    // Retry with the batched logs - don't break the app if logging fails
+    enqueue(serverUrl, entry);
   }
 }
 
+/**
+ * Buffer a log for the next batch, dropping the oldest buffered logs
+ * once the buffer is full.
+ */
+function enqueue(serverUrl: string, entry: LogEntry): void {
+  logBuffer.push(entry);
+  trimBuffer();
+  scheduleFlush(serverUrl, batchInterval);
+}
+
+function trimBuffer(): void {
+  while (logBuffer.length > maxBufferSize) {
+    const dropped = logBuffer.shift()!;
+    droppedCount++;
+    droppedByType[dropped.type] = (droppedByType[dropped.type] ?? 0) + 1;
+  }
+}
+
+function scheduleFlush(serverUrl: string, delay: number): void {
+  flushServerUrl = serverUrl;
+  watchAppState();
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushLogs(serverUrl);
+  }, delay);
+}
+
+/**
+ * Flush when the app goes to the background (it may be suspended or
+ * killed there) and when it comes back (the network may be back too).
+ */
+function watchAppState(): void {
+  if (appStateWatched) return;
+  appStateWatched = true;
+
+  loadReactNative()?.AppState?.addEventListener('change', state => {
+    if (state !== 'active' && state !== 'background') return;
+    if (state === 'active') failedAttempts = 0;
+    flushLogs(flushServerUrl);
+  });
+}
+
+/**
+ * Send the buffered logs in one batch. A failed batch goes back into the
+ * buffer and is retried with exponential backoff; the batch that finally
+ * gets through reports the attempt count and any logs dropped meanwhile.
+ */
 async function flushLogs(serverUrl: string): Promise<void> {
   if (flushTimer) {
     clearTimeout(flushTimer);
     flushTimer = null;
   }
 
-  if (logBuffer.length === 0) return;
+  if (flushing || logBuffer.length === 0) return;
+  flushing = true;
+  urgentFlush = false;
 
-  const logs = [...logBuffer];
+  const logs = logBuffer;
   logBuffer = [];
+  const dropped = droppedCount > 0 ? { count: droppedCount, types: { ...droppedByType } } : undefined;
 
   try {
-    await fetch(`${serverUrl}/logs`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ logs }),
+    await postJson(`${serverUrl}/logs`, {
+      device: await getIdentity(),
+      delivery: { attempt: failedAttempts + 1, ...(dropped && { dropped }) },
+      logs,
     });
   } catch {
-    // Silently fail - don't break the app if logging fails
+    // Keep the batch for the next attempt - don't break the app if logging fails
+    logBuffer = [...logs, ...logBuffer];
+    trimBuffer();
+    failedAttempts++;
+    flushing = false;
+    // Back off even if new logs scheduled a flush while this one was in flight
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    scheduleFlush(serverUrl, Math.min(batchInterval * 2 ** failedAttempts, MAX_RETRY_DELAY));
+    return;
+  }
+
+  failedAttempts = 0;
+  flushing = false;
+  if (dropped) {
+    // Keep counting drops that happened while this batch was in flight
+    droppedCount -= dropped.count;
+    for (const [type, count] of Object.entries(dropped.types) as [LogEntry['type'], number][]) {
+      droppedByType[type] = (droppedByType[type] ?? 0) - count;
+      if (!droppedByType[type]) delete droppedByType[type];
+    }
+  }
+
+  if (logBuffer.length > 0) {
+    if (urgentFlush) flushLogs(serverUrl);
+    else scheduleFlush(serverUrl, batchInterval);
   }
 }
 
@@ -201,6 +508,8 @@ export interface ConsoleCaptureOptions {
   includePatterns?: RegExp[];
   /** Tag patterns to exclude (regex). */
   excludePatterns?: RegExp[];
+  /** App platform reported with each log (default: detected from react-native) */
+  platform?: string;
 }
 
 /**
@@ -225,6 +534,7 @@ export function enableConsoleCapture(options: ConsoleCaptureOptions = {}): void
   const enabled = options.enabled ?? globalEnabled;
   const includePatterns = options.includePatterns;
   const excludePatterns = options.excludePatterns;
+  const platform = options.platform ?? globalPlatform;
 
   if (!enabled) {
     return;
@@ -276,15 +586,11 @@ export function enableConsoleCapture(options: ConsoleCaptureOptions = {}): void
         message,
         tag,
         timestamp: new Date().toISOString(),
+        ...(platform && { platform }),
         ...(data !== undefined && { data: serializeData(data) }),
       };
 
-      logBuffer.push(entry);
-      if (!flushTimer) {
-        flushTimer = setTimeout(() => {
-          flushLogs(serverUrl);
-        }, batchInterval);
-      }
+      enqueue(serverUrl, entry);
     };
   };
 
@@ -313,6 +619,590 @@ export function disableConsoleCapture(): void {
   consoleCapureEnabled = false;
 }
 
+export interface ErrorReportOptions {
+  /** Server URL (default: configured server) */
+  serverUrl?: string;
+  /** Tag the error is logged under */
+  tag?: string;
+  /** App platform reported with the error (default: configured platform) */
+  platform?: string;
+  isFatal?: boolean;
+  componentStack?: string | null;
+}
+
+/**
+ * Report an error right away, without waiting for the batch timer:
+ * after a fatal error the app may not live to the next flush.
+ */
+export function reportError(error: unknown, options: ErrorReportOptions = {}): void {
+  if (!globalEnabled) return;
+
+  const serverUrl = options.serverUrl ?? globalServerUrl;
+  const platform = options.platform ?? globalPlatform;
+  const details = error && typeof error === 'object' ? error as { name?: unknown; message?: unknown; stack?: unknown } : {};
+  const errorName = typeof details.name === 'string' ? details.name : 'Error';
+  const message = typeof details.message === 'string' ? details.message : formatArg(error);
+
+  const entry: LogEntry = {
+    type: 'error',
+    message: `${errorName}: ${message}`,
+    tag: options.tag ?? 'error',
+    timestamp: new Date().toISOString(),
+    errorName,
+    ...(platform && { platform }),
+    ...(typeof details.stack === 'string' && { stack: details.stack }),
+    ...(options.isFatal !== undefined && { isFatal: options.isFatal }),
+    ...(options.componentStack && { componentStack: options.componentStack }),
+  };
+
+  logBuffer.push(entry);
+  trimBuffer();
+  urgentFlush = true;
+  flushLogs(serverUrl);
+}
+
+let errorCaptureEnabled = false;
+
+type GlobalErrorHandler = (error: unknown, isFatal?: boolean) => void;
+
+/** What a promise rejection tracker is enabled with */
+interface RejectionTracking {
+  allRejections: boolean;
+  onUnhandled(id: number, error: unknown): void;
+  onHandled(): void;
+}
+
+/** The globals error capture hooks into, where the runtime has them */
+interface ErrorGlobals {
+  ErrorUtils?: {
+    setGlobalHandler?(handler: GlobalErrorHandler): void;
+    getGlobalHandler?(): GlobalErrorHandler | undefined;
+  };
+  HermesInternal?: {
+    hasPromise?(): boolean;
+    enablePromiseRejectionTracker?(tracking: RejectionTracking): void;
+  };
+  addEventListener?(type: 'unhandledrejection', listener: (event: { reason: unknown }) => void): void;
+}
+
+const errorGlobals = globalThis as unknown as ErrorGlobals;
+
+export interface ErrorCaptureOptions {
+  /** Server URL (default: http://localhost:9090) */
+  serverUrl?: string;
+  /** Whether capture is enabled (default: true) */
+  enabled?: boolean;
+  /** Also report unhandled promise rejections (default: true) */
+  captureRejections?: boolean;
+  /** App platform reported with each error (default: detected from react-native) */
+  platform?: string;
+}
+
+/**
+ * Report uncaught JS errors (the red box) and unhandled promise rejections.
+ * Call this once at app startup. The previous global error handler still
+ * runs after the error is reported, so React Native's own handling is kept.
+ *
+ * @example
+ * import { enableErrorCapture } from 'repack-logs-mcp/client';
+ * enableErrorCapture();
+ */
+export function enableErrorCapture(options: ErrorCaptureOptions = {}): void {
+  if (errorCaptureEnabled || !(options.enabled ?? globalEnabled)) return;
+  errorCaptureEnabled = true;
+
+  const report = { serverUrl: options.serverUrl, platform: options.platform };
+
+  const errorUtils = errorGlobals.ErrorUtils;
+  if (errorUtils?.setGlobalHandler) {
+    const previousHandler = errorUtils.getGlobalHandler?.();
+    errorUtils.setGlobalHandler((error, isFatal) => {
+      reportError(error, { ...report, tag: 'ErrorUtils', isFatal: isFatal ?? false });
+      previousHandler?.(error, isFatal);
+    });
+  }
+
+  if (options.captureRejections ?? true) {
+    trackRejections(error => {
+      // Replacing React Native's tracker removes its warning, so keep one
+      originalConsole.warn('Possible unhandled promise rejection:', error);
+      reportError(error, { ...report, tag: 'UnhandledRejection', isFatal: false });
+    });
+  }
+}
+
+/**
+ * Call `onUnhandled` for promise rejections nobody handles, through
+ * Hermes' tracker, the `promise` polyfill's tracker used by JSC, or the
+ * standard `unhandledrejection` event.
+ */
+function trackRejections(onUnhandled: (error: unknown) => void): void {
+  const tracking: RejectionTracking = {
+    allRejections: true,
+    onUnhandled: (_id, error) => onUnhandled(error),
+    onHandled: () => {},
+  };
+
+  const hermes = errorGlobals.HermesInternal;
+  if (hermes?.hasPromise?.() && hermes.enablePromiseRejectionTracker) {
+    hermes.enablePromiseRejectionTracker(tracking);
+    return;
+  }
+
+  try {
+    require('promise/setimmediate/rejection-tracking').enable(tracking);
+    return;
+  } catch {
+    // Not using the promise polyfill
+  }
+
+  errorGlobals.addEventListener?.('unhandledrejection', event => onUnhandled(event.reason));
+}
+
+/**
+ * Report an error caught by a React error boundary, with its component
+ * stack. Call it from your boundary's componentDidCatch, or use
+ * createErrorBoundary().
+ *
+ * @example
+ * componentDidCatch(error, info) {
+ *   reportBoundaryError(error, info);
+ * }
+ */
+export function reportBoundaryError(
+  error: unknown,
+  info?: { componentStack?: string | null },
+  options: ErrorReportOptions = {},
+): void {
+  reportError(error, { tag: 'ErrorBoundary', ...options, componentStack: info?.componentStack });
+}
+
+/** The parts of React's Component class an error boundary extends */
+export interface ComponentClass {
+  new (props: { children?: unknown }): { props: { children?: unknown } };
+}
+
+export interface ErrorBoundaryOptions extends ErrorReportOptions {
+  /** Rendered instead of the children after an error (default: nothing) */
+  fallback?: (error: unknown) => unknown;
+}
+
+/**
+ * Create an error boundary component that reports what it catches.
+ * React is passed in so this package does not depend on it.
+ *
+ * @example
+ * import React from 'react';
+ * const ErrorBoundary = createErrorBoundary(React, { fallback: () => <CrashScreen /> });
+ * <ErrorBoundary><App /></ErrorBoundary>
+ */
+export function createErrorBoundary<C extends ComponentClass>(
+  react: { Component: C },
+  options: ErrorBoundaryOptions = {},
+): C {
+  const { fallback, ...reportOptions } = options;
+  const Component: ComponentClass = react.Component;
+
+  class ErrorBoundary extends Component {
+    state = { error: null as unknown };
+
+    static getDerivedStateFromError(error: unknown) {
+      return { error };
+    }
+
+    componentDidCatch(error: unknown, info: { componentStack?: string | null }) {
+      reportBoundaryError(error, info, reportOptions);
+    }
+
+    render() {
+      if (this.state.error) return fallback ? fallback(this.state.error) : null;
+      return this.props.children;
+    }
+  }
+  // A component taking the same props as React's, so JSX type-checks it as one
+  return ErrorBoundary as unknown as C;
+}
+
+let hmrReportingEnabled = false;
+/** How long a reload waits for its event to be sent */
+const RELOAD_FLUSH_TIMEOUT = 500;
+
+/** Replaced by the bundler with the hash of the running compilation */
+declare const __webpack_hash__: string | undefined;
+
+function runningHash(): string | undefined {
+  try {
+    return typeof __webpack_hash__ === 'string' ? __webpack_hash__ : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The parts of webpack's `module.hot` API used to follow hot updates */
+export interface HotModule {
+  addStatusHandler(handler: (status: string) => void): void;
+}
+
+export interface HmrReportingOptions {
+  /** Server URL (default: configured server) */
+  serverUrl?: string;
+  /** Whether reporting is enabled (default: true) */
+  enabled?: boolean;
+  /** App platform reported with each event (default: detected from react-native) */
+  platform?: string;
+}
+
+/**
+ * Send a hot reloading event right away, so it arrives before a reload
+ * discards the buffer.
+ */
+function sendHmrEvent(serverUrl: string, platform: string | undefined, type: LogEntry['type'], message: string, hmr: HmrEvent): Promise<void> {
+  logBuffer.push({
+    type,
+    message,
+    tag: 'hmr',
+    timestamp: new Date().toISOString(),
+    hmr,
+    ...(platform && { platform }),
+  });
+  trimBuffer();
+  urgentFlush = true;
+  return flushLogs(serverUrl);
+}
+
+/**
+ * Report which compilation the app runs: once when called (the bundle
+ * that just loaded), after each applied or failed hot update, and before
+ * DevSettings.reload() reloads the app. The server matches these with
+ * the builds' hot update manifests. Pass `module.hot`; without it only
+ * loads and reloads are reported.
+ *
+ * @example
+ * import { enableHmrReporting } from 'repack-logs-mcp/client';
+ * enableHmrReporting(module.hot);
+ */
+export function enableHmrReporting(hot?: HotModule | null, options: HmrReportingOptions = {}): void {
+  if (hmrReportingEnabled || !(options.enabled ?? globalEnabled)) return;
+  hmrReportingEnabled = true;
+
+  const serverUrl = options.serverUrl ?? globalServerUrl;
+  const platform = options.platform ?? globalPlatform;
+  const loadedHash = runningHash();
+  sendHmrEvent(serverUrl, platform, 'info', `Bundle loaded${loadedHash ? ` (${loadedHash})` : ''}`, {
+    event: 'load',
+    hash: loadedHash,
+  });
+
+  // Statuses go check → prepare → ready → dispose → apply → idle, or end in fail/abort
+  let previousHash: string | undefined;
+  let applying = false;
+  hot?.addStatusHandler(status => {
+    if (status === 'check') {
+      previousHash = runningHash();
+      applying = false;
+    } else if (status === 'apply') {
+      applying = true;
+    } else if (status === 'idle' && applying) {
+      applying = false;
+      const hash = runningHash();
+      sendHmrEvent(serverUrl, platform, 'info', `Hot update applied${hash ? ` (${hash})` : ''}`, {
+        event: 'applied',
+        hash,
+        previousHash,
+      });
+    } else if (status === 'fail' || status === 'abort') {
+      applying = false;
+      sendHmrEvent(serverUrl, platform, 'warn', `Hot update failed (${status})`, {
+        event: 'failed',
+        hash: runningHash(),
+        previousHash,
+        status,
+      });
+    }
+  });
+
+  const devSettings = loadReactNative()?.DevSettings;
+  const reload = devSettings?.reload;
+  if (!devSettings || typeof reload !== 'function') return;
+  devSettings.reload = (reason?: string) => {
+    const sent = sendHmrEvent(serverUrl, platform, 'info', `Reloading${reason ? `: ${reason}` : ''}`, {
+      event: 'reload',
+      hash: runningHash(),
+      ...(reason && { reason }),
+    });
+    // Reload even if the server does not answer
+    const timeout = new Promise(resolve => setTimeout(resolve, RELOAD_FLUSH_TIMEOUT));
+    Promise.race([sent, timeout]).then(() => reload.call(devSettings, reason));
+  };
+}
+
+/** The parts of an XMLHttpRequest read when it ends */
+interface CapturedXhr {
+  readonly status: number;
+  readonly responseType: string;
+  readonly responseText: string;
+  readonly response: unknown;
+  addEventListener(type: string, listener: () => void): void;
+  getAllResponseHeaders?(): string | null;
+}
+
+/** The XMLHttpRequest methods network capture wraps */
+interface XhrMethods {
+  open(this: CapturedXhr, method: string, url: string, ...rest: unknown[]): void;
+  setRequestHeader(this: CapturedXhr, name: string, value: string): void;
+  send(this: CapturedXhr, body?: unknown): void;
+}
+
+/** The globals network capture replaces; XMLHttpRequest only exists in browsers and React Native */
+interface NetworkGlobals {
+  fetch: typeof fetch;
+  XMLHttpRequest?: { prototype: XhrMethods };
+}
+
+const networkGlobals = globalThis as unknown as NetworkGlobals;
+let networkCaptureEnabled = false;
+let originalFetch: typeof fetch | undefined;
+let originalXhr: XhrMethods | undefined;
+/**
+ * Requests made while this is above zero are not captured: the client's
+ * own, and the XMLHttpRequest a fetch() polyfill makes for a captured fetch.
+ */
+let captureSuspended = 0;
+
+function withoutCapture<T>(send: () => T): T {
+  captureSuspended++;
+  try {
+    return send();
+  } finally {
+    captureSuspended--;
+  }
+}
+
+export interface NetworkCaptureOptions {
+  /** Server URL (default: http://localhost:9090) */
+  serverUrl?: string;
+  /** Whether capture is enabled (default: true) */
+  enabled?: boolean;
+  /** App platform reported with each request (default: detected from react-native) */
+  platform?: string;
+  /** Headers whose values are recorded; all others are redacted (default: none) */
+  allowedHeaders?: string[];
+  /** Characters of each request and response body recorded (default: 2000; 0 leaves bodies out) */
+  maxBodyLength?: number;
+  /** URLs not to record */
+  ignoreUrls?: RegExp[];
+}
+
+const TEXT_CONTENT_TYPE = /json|text|xml|javascript|x-www-form-urlencoded|graphql/i;
+
+function redactHeaders(headers: Record<string, string>, allowed: Set<string>): Record<string, string> | undefined {
+  const names = Object.keys(headers);
+  if (names.length === 0) return undefined;
+  return Object.fromEntries(names.map(name => [name, allowed.has(name.toLowerCase()) ? headers[name] : '[redacted]']));
+}
+
+function headersToRecord(headers: unknown): Record<string, string> {
+  if (!headers || typeof headers !== 'object') return {};
+  if (typeof (headers as { forEach?: unknown }).forEach === 'function' && !Array.isArray(headers)) {
+    const record: Record<string, string> = {};
+    (headers as { forEach(callback: (value: string, name: string) => void): void }).forEach((value, name) => {
+      record[name] = value;
+    });
+    return record;
+  }
+  const entries = Array.isArray(headers) ? headers : Object.entries(headers);
+  return Object.fromEntries(entries.map(([name, value]) => [String(name), String(value)]));
+}
+
+/**
+ * Parse the raw header block of XMLHttpRequest.getAllResponseHeaders().
+ */
+function parseRawHeaders(raw: string): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const line of raw.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) record[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  }
+  return record;
+}
+
+/**
+ * Get the size of a request body, and its text when it has one.
+ */
+function describeBody(body: unknown): { text?: string; size?: number } {
+  if (body === undefined || body === null) return {};
+  if (typeof body === 'string') return { text: body, size: body.length };
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+    const text = body.toString();
+    return { text, size: text.length };
+  }
+  if (typeof (body as { size?: unknown }).size === 'number') return { size: (body as { size: number }).size };
+  if (typeof (body as { byteLength?: unknown }).byteLength === 'number') {
+    return { size: (body as { byteLength: number }).byteLength };
+  }
+  return {};
+}
+
+/**
+ * Record fetch() and XMLHttpRequest calls made by the app: method, URL,
+ * status, duration, sizes, truncated bodies and errors. Header values are
+ * redacted unless listed in `allowedHeaders`. Requests to the MCP server
+ * itself are never recorded.
+ *
+ * @example
+ * import { enableNetworkCapture } from 'repack-logs-mcp/client';
+ * enableNetworkCapture({ allowedHeaders: ['content-type'], ignoreUrls: [/analytics/] });
+ */
+export function enableNetworkCapture(options: NetworkCaptureOptions = {}): void {
+  if (networkCaptureEnabled || !(options.enabled ?? globalEnabled)) return;
+  networkCaptureEnabled = true;
+
+  const serverUrl = options.serverUrl ?? globalServerUrl;
+  const platform = options.platform ?? globalPlatform;
+  const maxBodyLength = options.maxBodyLength ?? 2000;
+  const allowed = new Set((options.allowedHeaders ?? []).map(name => name.toLowerCase()));
+  const isIgnored = (url: string) =>
+    url.startsWith(serverUrl) || (options.ignoreUrls ?? []).some(pattern => pattern.test(url));
+  const cut = (text?: string) => text === undefined || maxBodyLength <= 0
+    ? undefined
+    : text.length > maxBodyLength ? `${text.slice(0, maxBodyLength)}… [${text.length - maxBodyLength} more chars]` : text;
+
+  const record = (request: NetworkRequest) => {
+    const type = request.status === undefined || request.status >= 500 ? 'error'
+      : request.status >= 400 ? 'warn'
+      : 'info';
+    enqueue(serverUrl, {
+      type,
+      message: `${request.method} ${request.url} → ${request.status ?? request.error ?? 'failed'} (${request.duration}ms)`,
+      tag: 'network',
+      timestamp: new Date().toISOString(),
+      ...(platform && { platform }),
+      network: request,
+    });
+  };
+
+  if (typeof fetch === 'function') {
+    const baseFetch = fetch;
+    originalFetch = baseFetch;
+
+    networkGlobals.fetch = async (input, init) => {
+      // A Request, or a URL
+      const fields = typeof input === 'string' ? undefined : input as { url?: string; method?: string; headers?: unknown };
+      const url = fields?.url ?? String(input);
+      if (captureSuspended > 0 || isIgnored(url)) return withoutCapture(() => baseFetch(input, init));
+
+      const method = String(init?.method ?? fields?.method ?? 'GET').toUpperCase();
+      const body = describeBody(init?.body);
+      const request = {
+        method,
+        url,
+        requestSize: body.size,
+        requestHeaders: redactHeaders(headersToRecord(init?.headers ?? fields?.headers), allowed),
+        requestBody: cut(body.text),
+      };
+      const start = Date.now();
+
+      let response: Response;
+      try {
+        response = await withoutCapture(() => baseFetch(input, init));
+      } catch (err) {
+        record({ ...request, duration: Date.now() - start, error: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+
+      const responseHeaders = headersToRecord(response.headers);
+      const length = Number(responseHeaders['content-length']);
+      const finish = (text?: string) => record({
+        ...request,
+        status: response.status,
+        duration: Date.now() - start,
+        responseSize: text !== undefined ? text.length : Number.isNaN(length) ? undefined : length,
+        responseHeaders: redactHeaders(responseHeaders, allowed),
+        responseBody: cut(text),
+      });
+
+      // Read a copy so the app can still consume the body
+      if (maxBodyLength > 0 && TEXT_CONTENT_TYPE.test(responseHeaders['content-type'] ?? '')) {
+        response.clone().text().then(finish, () => finish());
+      } else {
+        finish();
+      }
+      return response;
+    };
+  }
+
+  const Xhr = networkGlobals.XMLHttpRequest;
+  if (Xhr?.prototype) {
+    const proto = Xhr.prototype;
+    originalXhr = { open: proto.open, send: proto.send, setRequestHeader: proto.setRequestHeader };
+    const { open, send, setRequestHeader } = originalXhr;
+    const requests = new WeakMap<CapturedXhr, { method: string; url: string; headers: Record<string, string> }>();
+
+    proto.open = function (method: string, url: string, ...rest: unknown[]) {
+      if (captureSuspended > 0 || isIgnored(String(url))) {
+        requests.delete(this);
+      } else {
+        requests.set(this, { method: String(method).toUpperCase(), url: String(url), headers: {} });
+      }
+      return open.call(this, method, url, ...rest);
+    };
+
+    proto.setRequestHeader = function (name: string, value: string) {
+      const request = requests.get(this);
+      if (request) request.headers[name] = value;
+      return setRequestHeader.call(this, name, value);
+    };
+
+    proto.send = function (requestBody?: unknown) {
+      const request = requests.get(this);
+      if (request) {
+        const start = Date.now();
+        const body = describeBody(requestBody);
+        let error: string | undefined;
+        this.addEventListener('error', () => { error = 'Network request failed'; });
+        this.addEventListener('timeout', () => { error = 'Timed out'; });
+        this.addEventListener('abort', () => { error = 'Aborted'; });
+        this.addEventListener('loadend', () => {
+          const responseHeaders = parseRawHeaders(this.getAllResponseHeaders?.() ?? '');
+          const text = this.responseType === '' || this.responseType === 'text' ? this.responseText
+            : this.responseType === 'json' && this.response !== null ? JSON.stringify(this.response)
+            : undefined;
+          const length = Number(responseHeaders['content-length']);
+          record({
+            method: request.method,
+            url: request.url,
+            status: error || !this.status ? undefined : this.status,
+            duration: Date.now() - start,
+            requestSize: body.size,
+            responseSize: typeof text === 'string' ? text.length : Number.isNaN(length) ? undefined : length,
+            requestHeaders: redactHeaders(request.headers, allowed),
+            responseHeaders: redactHeaders(responseHeaders, allowed),
+            requestBody: cut(body.text),
+            responseBody: cut(typeof text === 'string' ? text : undefined),
+            ...(error || !this.status ? { error: error ?? 'Network request failed' } : {}),
+          });
+        });
+      }
+      return send.call(this, requestBody);
+    };
+  }
+}
+
+/**
+ * Disable network capture and restore the original fetch and XMLHttpRequest.
+ */
+export function disableNetworkCapture(): void {
+  if (!networkCaptureEnabled) return;
+
+  if (originalFetch) networkGlobals.fetch = originalFetch;
+  const Xhr = networkGlobals.XMLHttpRequest;
+  if (originalXhr && Xhr?.prototype) Object.assign(Xhr.prototype, originalXhr);
+  originalFetch = undefined;
+  originalXhr = undefined;
+
+  networkCaptureEnabled = false;
+}
+
 function formatArg(arg: unknown): string {
   if (typeof arg === 'string') return arg;
   if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
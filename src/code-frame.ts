@@ -0,0 +1,38 @@
+import { readFile, stat } from 'node:fs/promises';
+import type { SourceLocation } from './types.js';
+
+export interface CodeFrameLine {
+  line: number;
+  text: string;
+}
+
+export interface CodeFrame {
+  /** The lines around the location; fewer at the start or end of the file */
+  lines: CodeFrameLine[];
+  modifiedAt: Date;
+}
+
+const MAX_LINE_LENGTH = 300;
+
+/**
+ * Read the lines of a file from `contextLines` before to `contextLines`
+ * after a location. Throws if the file cannot be read.
+ */
+export async function readCodeFrame(
+  filePath: string,
+  location: SourceLocation,
+  contextLines: number,
+): Promise<CodeFrame> {
+  const [source, stats] = await Promise.all([readFile(filePath, 'utf8'), stat(filePath)]);
+  const sourceLines = source.replace(/\r?\n$/, '').split(/\r?\n/);
+
+  const first = Math.max(1, location.line - contextLines);
+  const last = Math.min(sourceLines.length, (location.endLine ?? location.line) + contextLines);
+  const lines: CodeFrameLine[] = [];
+  for (let line = first; line <= last; line++) {
+    const text = sourceLines[line - 1];
+    lines.push({ line, text: text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}…` : text });
+  }
+
+  return { lines, modifiedAt: stats.mtime };
+}
@@ -1,44 +1,155 @@
 import { resolve } from 'path';
 
+/**
+ * A log file or glob to watch, e.g. `host=apps/host/.repack-logs.json`.
+ */
+export interface LogSourceSpec {
+  /** Source name of the entries read; by default the name of each file's directory */
+  label?: string;
+  /** Absolute path or glob (`*`, `**`, `?`, `{a,b}`) */
+  pattern: string;
+}
+
 export interface Config {
-  logFilePath: string;
+  logSources: LogSourceSpec[];
   maxLogs: number;
+  /** Copies of the same error kept in the buffer; a new copy replaces the oldest */
+  maxDuplicates: number;
   runtimePort: number;
+  /** Directory for persistent log history (disabled when unset) */
+  historyDir?: string;
+  /** Maximum age of persisted history in ms */
+  historyMaxAge: number;
+  /** Maximum size of persisted history in bytes */
+  historyMaxSize: number;
+  /** Default character budget for tool responses */
+  maxResponseChars: number;
+}
+
+export const COMMANDS = ['serve', 'tail', 'status', 'errors', 'help'] as const;
+
+export type Command = typeof COMMANDS[number];
+
+export interface CliArgs {
+  /** Subcommand; `serve` (the MCP server) when none is given */
+  command: Command;
+  /** Log files or globs given as positional arguments, optionally `label=`-prefixed */
+  logSources: string[];
+  /** `--name value`, `--name=value` and boolean `--name` options */
+  options: Record<string, string | boolean>;
 }
 
+/** Options that take a value; all others are boolean flags */
+const VALUE_OPTIONS = ['types', 'issuer', 'search', 'platform', 'source', 'device', 'session', 'category', 'query', 'limit', 'lines'];
+const SHORT_OPTIONS: Record<string, string> = { n: 'lines', h: 'help' };
+
 const DEFAULT_LOG_FILE = '.repack-logs.json';
 const DEFAULT_MAX_LOGS = 1000;
+const DEFAULT_MAX_DUPLICATES = 10;
 const DEFAULT_RUNTIME_PORT = 9090;
+const DEFAULT_HISTORY_MAX_AGE_HOURS = 72;
+const DEFAULT_HISTORY_MAX_SIZE_MB = 100;
+const DEFAULT_MAX_RESPONSE_CHARS = 20000;
+
+/**
+ * Split command line arguments into a subcommand, log sources and
+ * options. Positionals other than a leading known subcommand are log
+ * sources, so `repack-logs-mcp ./logs.json` still starts the server.
+ * `--server` takes a value only when it looks like a URL.
+ */
+export function parseArgs(args: string[]): CliArgs {
+  const result: CliArgs = { command: 'serve', logSources: [], options: {} };
+  const positionals: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [rawName, inlineValue] = arg.replace(/^--?/, '').split(/=(.*)/s);
+    const name = arg.startsWith('--') ? rawName : SHORT_OPTIONS[rawName] ?? rawName;
+
+    if (inlineValue !== undefined) {
+      result.options[name] = inlineValue;
+    } else if (VALUE_OPTIONS.includes(name) && i + 1 < args.length) {
+      result.options[name] = args[++i];
+    } else if (name === 'server' && /^https?:\/\//.test(args[i + 1] ?? '')) {
+      result.options[name] = args[++i];
+    } else {
+      result.options[name] = true;
+    }
+  }
+
+  if (positionals.length > 0 && (COMMANDS as readonly string[]).includes(positionals[0])) {
+    result.command = positionals.shift() as Command;
+  }
+  result.logSources = positionals;
+
+  return result;
+}
+
+/**
+ * Parse a `[label=]path-or-glob` log source. Relative paths are resolved
+ * against the working directory.
+ */
+export function parseLogSource(spec: string): LogSourceSpec {
+  const match = spec.match(/^([\w.-]+)=(.+)$/);
+  const [label, pattern] = match ? [match[1], match[2]] : [undefined, spec];
+  return { ...(label && { label }), pattern: resolve(pattern) };
+}
 
 /**
  * Parse configuration from CLI args and environment variables.
  *
- * Priority:
- * 1. CLI argument (first positional arg)
- * 2. REPACK_LOG_FILE environment variable
+ * Log sources, by priority:
+ * 1. CLI arguments (positional args after the subcommand)
+ * 2. REPACK_LOG_FILE environment variable, comma-separated
  * 3. Default: .repack-logs.json in current directory
  */
-export function getConfig(): Config {
-  const args = process.argv.slice(2);
-
-  // First positional argument is the log file path
-  const cliPath = args.find(arg => !arg.startsWith('-'));
+export function getConfig(args: string[] = process.argv.slice(2)): Config {
+  const cliSources = parseArgs(args).logSources;
 
-  const logFilePath = cliPath
-    ?? process.env.REPACK_LOG_FILE
-    ?? DEFAULT_LOG_FILE;
+  const logSources = cliSources.length > 0
+    ? cliSources
+    : process.env.REPACK_LOG_FILE?.split(',').map(spec => spec.trim()).filter(Boolean) ?? [];
 
   const maxLogs = process.env.REPACK_MAX_LOGS
     ? parseInt(process.env.REPACK_MAX_LOGS, 10)
     : DEFAULT_MAX_LOGS;
 
+  const maxDuplicates = process.env.REPACK_MAX_DUPLICATES
+    ? parseInt(process.env.REPACK_MAX_DUPLICATES, 10)
+    : DEFAULT_MAX_DUPLICATES;
+
   const runtimePort = process.env.REPACK_RUNTIME_PORT
     ? parseInt(process.env.REPACK_RUNTIME_PORT, 10)
     : DEFAULT_RUNTIME_PORT;
 
+  const historyDir = process.env.REPACK_HISTORY_DIR;
+
+  const historyMaxAgeHours = process.env.REPACK_HISTORY_MAX_AGE_HOURS
+    ? parseFloat(process.env.REPACK_HISTORY_MAX_AGE_HOURS)
+    : DEFAULT_HISTORY_MAX_AGE_HOURS;
+
+  const historyMaxSizeMb = process.env.REPACK_HISTORY_MAX_SIZE_MB
+    ? parseFloat(process.env.REPACK_HISTORY_MAX_SIZE_MB)
+    : DEFAULT_HISTORY_MAX_SIZE_MB;
+
+  const maxResponseChars = process.env.REPACK_MAX_RESPONSE_CHARS
+    ? parseInt(process.env.REPACK_MAX_RESPONSE_CHARS, 10)
+    : DEFAULT_MAX_RESPONSE_CHARS;
+
   return {
-    logFilePath: resolve(logFilePath),
+    logSources: (logSources.length > 0 ? logSources : [DEFAULT_LOG_FILE]).map(parseLogSource),
     maxLogs,
+    maxDuplicates,
     runtimePort,
+    historyDir: historyDir ? resolve(historyDir) : undefined,
+    historyMaxAge: historyMaxAgeHours * 60 * 60 * 1000,
+    historyMaxSize: historyMaxSizeMb * 1024 * 1024,
+    maxResponseChars,
   };
 }
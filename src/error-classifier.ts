@@ -0,0 +1,175 @@
+import type { ErrorClassification, LogEntry } from './types.js';
+
+/** File extensions Re.Pack handles as assets rather than modules */
+const ASSET_EXTENSIONS = [
+  'bmp', 'gif', 'jpg', 'jpeg', 'png', 'psd', 'svg', 'webp', 'tiff',
+  'm4v', 'mov', 'mp4', 'mpeg', 'mpg', 'webm',
+  'aac', 'aiff', 'caf', 'm4a', 'mp3', 'wav',
+  'html', 'pdf', 'obj', 'ttf', 'otf', 'lottie',
+];
+
+const ASSET_PATTERN = new RegExp(`\\.(${ASSET_EXTENSIONS.join('|')})(\\?.*)?$`, 'i');
+
+/**
+ * Strip colors and the box-drawing gutter Rspack draws around
+ * diagnostics, leaving one trimmed string per line.
+ */
+function cleanLines(message: string): string[] {
+  return message
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    .split('\n')
+    .map(line => line.replace(/^[\s│├╰─▶×]*/, '').trimEnd());
+}
+
+/**
+ * Shorten a loader request to its name: builtin loaders keep their
+ * `builtin:` name, loaders in node_modules become their package name.
+ */
+function loaderName(loader: string): string {
+  const packageMatch = loader.match(/node_modules[\\/]((?:@[^\\/]+[\\/])?[^\\/]+)/);
+  if (packageMatch) return packageMatch[1].replace(/\\/g, '/');
+  return loader.split('?')[0];
+}
+
+/**
+ * Find the position an SWC-style code frame points at: the caret line
+ * under the first numbered source line. Both share the same gutter, so
+ * the caret's offset from the `|` gives the column.
+ */
+function codeFramePosition(message: string): { line: number; column: number } | undefined {
+  let source: { line: number; codeStart: number } | undefined;
+  for (const line of message.replace(/\x1b\[[0-9;]*m/g, '').split('\n')) {
+    const sourceMatch = line.match(/(\d+) [|│] /);
+    if (sourceMatch && sourceMatch.index !== undefined) {
+      source = { line: parseInt(sourceMatch[1], 10), codeStart: sourceMatch.index + sourceMatch[0].length };
+      continue;
+    }
+    if (source && /[:·] *\^/.test(line)) {
+      return { line: source.line, column: line.indexOf('^') - source.codeStart + 1 };
+    }
+  }
+  return undefined;
+}
+
+function classifyMissingModule(lines: string[], entry: LogEntry): ErrorClassification | undefined {
+  for (const line of lines) {
+    const match = line.match(/Can't resolve '([^']+)' in '([^']+)'/)
+      ?? line.match(/Unable to resolve module [`'"]?([^`'"\s]+)[`'"]? from [`'"]?([^`'"\s]+?)[`'":]*$/);
+    if (!match) continue;
+
+    const [, request, context] = match;
+    const position = lines.join('\n').match(/╭─\[(\d+):(\d+)\]/);
+    const location = {
+      ...(entry.file && { file: entry.file }),
+      ...(position && { line: parseInt(position[1], 10), column: parseInt(position[2], 10) + 1 }),
+    };
+
+    if (ASSET_PATTERN.test(request)) {
+      return { category: 'asset-not-found', asset: request, request, context, ...location };
+    }
+    return { category: 'missing-module', request, context, ...location };
+  }
+  return undefined;
+}
+
+function classifySyntaxError(lines: string[], entry: LogEntry, loader?: string): ErrorClassification | undefined {
+  const text = lines.join('\n');
+  if (!/SyntaxError|Syntax Error|Module parse failed|Unexpected token/.test(text)) return undefined;
+
+  const withLoader = loader ? { loader } : {};
+
+  // Babel: "SyntaxError: /src/App.tsx: Unexpected token, expected "," (12:4)"
+  const babel = text.match(/SyntaxError: (\/[^:\n]+|[A-Za-z]:\\[^:\n]+): ([^\n]*?) \((\d+):(\d+)\)/);
+  if (babel) {
+    return {
+      category: 'syntax-error',
+      file: babel[1],
+      line: parseInt(babel[3], 10),
+      column: parseInt(babel[4], 10) + 1,
+      reason: babel[2],
+      ...withLoader,
+    };
+  }
+
+  // SWC: "x Expression expected" followed by ",-[/src/App.tsx:1:1]" and a code frame
+  const swcFile = text.match(/[,╭]-\[([^\]\n]+?):(\d+):(\d+)\]/);
+  const swcReason = lines.find(line => /^x /.test(line))?.slice(2).trim();
+  if (swcFile) {
+    const position = codeFramePosition(entry.message);
+    return {
+      category: 'syntax-error',
+      file: swcFile[1],
+      line: position?.line ?? parseInt(swcFile[2], 10),
+      column: position?.column ?? parseInt(swcFile[3], 10),
+      ...(swcReason && { reason: swcReason }),
+      ...withLoader,
+    };
+  }
+
+  // Webpack's parser: "Module parse failed: Unexpected token (3:5)"
+  const parser = text.match(/Module parse failed: ([^\n]*?) \((\d+):(\d+)\)/);
+  return {
+    category: 'syntax-error',
+    ...(entry.file && { file: entry.file }),
+    ...(parser && {
+      line: parseInt(parser[2], 10),
+      column: parseInt(parser[3], 10) + 1,
+      reason: parser[1],
+    }),
+    ...withLoader,
+  };
+}
+
+function classifyMissingAsset(lines: string[]): ErrorClassification | undefined {
+  for (const line of lines) {
+    const match = line.match(/ENOENT: no such file or directory, \w+ '([^']+)'/)
+      ?? line.match(/(?:Cannot|Could not|Unable to) find (?:scaled )?asset:? [`'"]?([^`'"\s]+)/i);
+    if (match && (ASSET_PATTERN.test(match[1]) || /asset/i.test(line))) {
+      return { category: 'asset-not-found', asset: match[1] };
+    }
+  }
+  return undefined;
+}
+
+function classifyDuplicateModule(lines: string[]): ErrorClassification | undefined {
+  const text = lines.join('\n');
+  if (/multiple modules with names that only differ in casing/i.test(text)) {
+    const modules = lines
+      .filter(line => line.startsWith('* '))
+      .map(line => line.slice(2).split('!').pop()!.trim());
+    return { category: 'duplicate-module', modules, reason: 'Module paths differ only in casing' };
+  }
+
+  const duplicate = text.match(/Duplicate module(?: name)?:? [`'"]?([^`'"\s]+)/i);
+  if (duplicate) return { category: 'duplicate-module', modules: [duplicate[1]] };
+  return undefined;
+}
+
+/**
+ * Recognize the common shapes of bundler errors (Rspack, webpack,
+ * Re.Pack, Babel and SWC) in a build error or warning and extract their
+ * details. Returns undefined for messages that match none of them.
+ */
+export function classifyError(entry: LogEntry): ErrorClassification | undefined {
+  const lines = cleanLines(entry.message);
+  const loaderMatch = lines.join('\n').match(/Module build failed \(from ([^)]+)\)/);
+  const loader = loaderMatch ? loaderName(loaderMatch[1]) : undefined;
+
+  const classification = classifyMissingModule(lines, entry)
+    ?? classifySyntaxError(lines, entry, loader)
+    ?? classifyDuplicateModule(lines)
+    ?? classifyMissingAsset(lines);
+  if (classification) return classification;
+
+  if (loaderMatch || /Module build failed/.test(entry.message)) {
+    const start = lines.findIndex(line => /Module build failed/.test(line));
+    const reason = lines.slice(start + 1).find(line => line.trim() !== '');
+    return {
+      category: 'loader-error',
+      ...(entry.file && { file: entry.file }),
+      ...(loader && { loader }),
+      ...(reason && { reason: reason.trim() }),
+    };
+  }
+  return undefined;
+}
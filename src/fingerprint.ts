@@ -0,0 +1,62 @@
+import { createHash } from 'node:crypto';
+import { getEntryStack, parseStack } from './symbolicator.js';
+import type { LogEntry } from './types.js';
+
+export interface Fingerprint {
+  fingerprint: string;
+  normalizedMessage: string;
+  /** Top app stack frame as "function@file", if the entry has a stack */
+  topFrame?: string;
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * Strip the parts of a message that vary between occurrences of the
+ * same problem: colors, UUIDs, addresses, IDs and numbers.
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<addr>')
+    .replace(/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<id>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_MESSAGE_LENGTH);
+}
+
+/**
+ * Find the first stack frame outside node_modules. Line and column are
+ * left out because they shift with every rebuild of the bundle.
+ */
+function topAppFrame(entry: LogEntry): string | undefined {
+  const stack = getEntryStack(entry);
+  if (!stack) return undefined;
+
+  const frame = parseStack(stack).find(frame => !/[\\/]node_modules[\\/]/.test(frame.file));
+  if (!frame) return undefined;
+
+  const file = frame.file.split('?')[0].split(/[\\/]/).pop();
+  return `${frame.functionName ?? '<anonymous>'}@${file}`;
+}
+
+/**
+ * Compute the grouping key of an error or warning entry.
+ */
+export function fingerprintEntry(entry: LogEntry): Fingerprint {
+  const normalizedMessage = normalizeMessage(entry.message);
+  const topFrame = topAppFrame(entry);
+
+  const fingerprint = createHash('sha1')
+    .update([entry.type, normalizedMessage, topFrame ?? '', entry.file ?? ''].join('|'))
+    .digest('hex')
+    .slice(0, 12);
+
+  return {
+    fingerprint,
+    normalizedMessage,
+    ...(topFrame && { topFrame }),
+  };
+}
@@ -0,0 +1,737 @@
+import type {
+  BuildView,
+  BundleReportResult,
+  CurrentBuild,
+  EntryView,
+  ErrorContextView,
+  ErrorGroupView,
+  HmrHistory,
+  Omitted,
+  SlowModulesReport,
+  StatusReport,
+} from './schemas.js';
+import { formatFrames, getEntryStack, type Symbolicator } from './symbolicator.js';
+import type {
+  BuildRecord,
+  DeviceRecord,
+  ErrorGroup,
+  LogEntry,
+  OutputFormat,
+  Verbosity,
+} from './types.js';
+
+export interface OutputOptions {
+  verbosity: Verbosity;
+  /** Character budget for the text content of a response */
+  maxChars: number;
+  format: OutputFormat;
+}
+
+export interface Budgeted<V> {
+  items: V[];
+  omitted?: Omitted;
+}
+
+const MESSAGE_LIMITS: Record<Verbosity, number> = { compact: 200, normal: 2000, full: Infinity };
+const STACK_LINE_LIMITS: Record<Verbosity, number> = { compact: 0, normal: 12, full: Infinity };
+const CHANGED_FILE_LIMIT = 20;
+/** Request and response bodies of network entries at normal verbosity */
+const NETWORK_BODY_LIMIT = 1000;
+const GROUP_BUILD_LIMIT = 10;
+
+/** Limits applied to `data` payloads at normal verbosity */
+const MAX_DATA_DEPTH = 4;
+const MAX_DATA_STRING = 500;
+const MAX_DATA_ITEMS = 20;
+const MAX_DATA_KEYS = 30;
+
+/** Room kept for the response header and the omission note */
+const RESERVED_CHARS = 300;
+const MAX_OMITTED_IDS = 100;
+
+/** ` (source, platform)` after a build ID, or nothing without either */
+function describeBuildTarget(build: { source?: string; platform?: string }): string {
+  const names = [build.source, build.platform].filter(Boolean);
+  return names.length > 0 ? ` (${names.join(', ')})` : '';
+}
+
+function truncateText(text: string, max: number): string {
+  if (text.length <= max) return text;
+  return `${text.slice(0, max)}… [${text.length - max} more chars]`;
+}
+
+function truncateLines(text: string, max: number): string {
+  const lines = text.split('\n');
+  if (lines.length <= max) return text;
+  return `${lines.slice(0, max).join('\n')}\n… ${lines.length - max} more line(s)`;
+}
+
+/**
+ * Shorten long strings, arrays and objects and cut off deep nesting,
+ * keeping the payload's shape recognisable.
+ */
+function shrinkValue(value: unknown, depth: number, state: { truncated: boolean }): unknown {
+  if (typeof value === 'string') {
+    if (value.length <= MAX_DATA_STRING) return value;
+    state.truncated = true;
+    return truncateText(value, MAX_DATA_STRING);
+  }
+  if (!value || typeof value !== 'object') return value;
+
+  if (depth >= MAX_DATA_DEPTH) {
+    state.truncated = true;
+    return Array.isArray(value) ? `[Array(${value.length})]` : '[Object]';
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_DATA_ITEMS).map(item => shrinkValue(item, depth + 1, state));
+    if (value.length > MAX_DATA_ITEMS) {
+      state.truncated = true;
+      items.push(`… ${value.length - MAX_DATA_ITEMS} more item(s)`);
+    }
+    return items;
+  }
+
+  const keys = Object.keys(value);
+  const result: Record<string, unknown> = {};
+  for (const key of keys.slice(0, MAX_DATA_KEYS)) {
+    result[key] = shrinkValue((value as Record<string, unknown>)[key], depth + 1, state);
+  }
+  if (keys.length > MAX_DATA_KEYS) {
+    state.truncated = true;
+    result['…'] = `${keys.length - MAX_DATA_KEYS} more key(s)`;
+  }
+  return result;
+}
+
+/**
+ * Build the view of an entry returned by tools. Stacks are symbolicated
+ * when a Symbolicator is given and the frames point into a bundle.
+ */
+export async function toEntryView(
+  entry: LogEntry,
+  verbosity: Verbosity,
+  symbolicator?: Symbolicator,
+): Promise<EntryView> {
+  const truncated: string[] = [];
+  const message = truncateText(entry.message, MESSAGE_LIMITS[verbosity]);
+  if (message !== entry.message) truncated.push('message');
+
+  const view: EntryView = {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    type: entry.type,
+    platform: entry.platform,
+    source: entry.source,
+    issuer: entry.issuer,
+    buildId: entry.buildId,
+    deviceId: entry.deviceId,
+    deviceName: entry.deviceName,
+    sessionId: entry.sessionId,
+    message,
+    file: entry.file,
+    loc: entry.loc,
+    request: entry.request,
+    loader: entry.loader,
+    duration: entry.duration,
+    fingerprint: entry.fingerprint,
+    errorName: entry.errorName,
+    classification: entry.classification,
+    isFatal: entry.isFatal,
+  };
+
+  if (getEntryStack(entry)) {
+    if (verbosity === 'compact') {
+      truncated.push('stack');
+    } else {
+      const frames = await symbolicator?.symbolicateEntry(entry);
+      const stack = frames ? formatFrames(frames, '') : getEntryStack(entry)!;
+      view.stack = truncateLines(stack, STACK_LINE_LIMITS[verbosity]);
+      if (view.stack !== stack) truncated.push('stack');
+      if (frames) view.symbolicated = true;
+    }
+  }
+
+  if (entry.network) {
+    const { requestHeaders, responseHeaders, requestBody, responseBody, ...summary } = entry.network;
+    view.network = summary;
+    if (verbosity === 'compact') {
+      if (requestHeaders || responseHeaders || requestBody || responseBody) truncated.push('network');
+    } else {
+      const limit = verbosity === 'normal' ? NETWORK_BODY_LIMIT : Infinity;
+      view.network = {
+        ...summary,
+        requestHeaders,
+        responseHeaders,
+        requestBody: requestBody !== undefined ? truncateText(requestBody, limit) : undefined,
+        responseBody: responseBody !== undefined ? truncateText(responseBody, limit) : undefined,
+      };
+      if (view.network.requestBody !== requestBody || view.network.responseBody !== responseBody) {
+        truncated.push('network');
+      }
+    }
+  }
+
+  if (entry.componentStack) {
+    if (verbosity === 'compact') {
+      truncated.push('componentStack');
+    } else {
+      view.componentStack = truncateLines(entry.componentStack.trim(), STACK_LINE_LIMITS[verbosity]);
+      if (view.componentStack !== entry.componentStack.trim()) truncated.push('componentStack');
+    }
+  }
+
+  if (entry.data !== undefined) {
+    if (verbosity === 'compact') {
+      truncated.push('data');
+    } else if (verbosity === 'normal') {
+      const state = { truncated: false };
+      view.data = shrinkValue(entry.data, 0, state);
+      if (state.truncated) truncated.push('data');
+    } else {
+      view.data = entry.data;
+    }
+  }
+
+  if (truncated.length > 0) view.truncated = truncated;
+  return view;
+}
+
+export function toBuildView(build: BuildRecord, verbosity: Verbosity): BuildView {
+  const view: BuildView = {
+    id: build.id,
+    platform: build.platform,
+    source: build.source,
+    hash: build.hash,
+    status: build.status,
+    startedAt: build.startedAt,
+    finishedAt: build.finishedAt,
+    duration: build.duration,
+    errorCount: build.errorCount,
+    warningCount: build.warningCount,
+  };
+
+  if (build.changedFiles.length > 0) {
+    if (verbosity === 'compact') {
+      view.truncated = ['changedFiles'];
+    } else if (verbosity === 'normal' && build.changedFiles.length > CHANGED_FILE_LIMIT) {
+      view.changedFiles = build.changedFiles.slice(0, CHANGED_FILE_LIMIT);
+      view.truncated = ['changedFiles'];
+    } else {
+      view.changedFiles = build.changedFiles;
+    }
+  }
+
+  if (verbosity === 'full') view.sourceMaps = build.sourceMaps;
+  return view;
+}
+
+export function toErrorGroupView(group: ErrorGroup, verbosity: Verbosity): ErrorGroupView {
+  const lastMessage = truncateText(group.lastMessage, MESSAGE_LIMITS[verbosity]);
+  const view: ErrorGroupView = {
+    fingerprint: group.fingerprint,
+    type: group.type,
+    lastMessage,
+    count: group.count,
+    lastSeen: group.lastSeen,
+  };
+  if (lastMessage !== group.lastMessage) view.truncated = ['lastMessage'];
+  if (verbosity === 'compact') return view;
+
+  view.file = group.file;
+  view.topFrame = group.topFrame;
+  view.firstSeen = group.firstSeen;
+  view.tags = group.tags;
+  view.platforms = group.platforms;
+  view.sources = group.sources;
+
+  if (verbosity === 'full') {
+    view.normalizedMessage = group.normalizedMessage;
+    view.builds = group.builds;
+  } else {
+    // Most recent builds are at the end
+    view.builds = group.builds.slice(-GROUP_BUILD_LIMIT);
+    if (group.builds.length > GROUP_BUILD_LIMIT) {
+      view.truncated = [...(view.truncated ?? []), 'builds'];
+    }
+  }
+  return view;
+}
+
+/**
+ * Format an entry view as text.
+ */
+export function formatEntry(view: EntryView, indent = '  '): string {
+  const parts = [
+    view.id !== undefined ? `#${view.id} [${view.timestamp}]` : `[${view.timestamp}]`,
+    `[${view.type.toUpperCase()}]`,
+  ];
+  if (view.isFatal) parts.push('[FATAL]');
+  if (view.source) parts.push(`[${view.source}]`);
+  if (view.platform) parts.push(`[${view.platform}]`);
+  if (view.deviceId) parts.push(`[${view.deviceName ?? view.deviceId}]`);
+  if (view.issuer) parts.push(`[${view.issuer}]`);
+  parts.push(view.message);
+  if (view.file) {
+    const position = view.loc ? `:${view.loc.line}${view.loc.column !== undefined ? `:${view.loc.column}` : ''}` : '';
+    parts.push(`\n${indent}File: ${view.file}${position}`);
+  }
+  if (view.classification) parts.push(formatClassification(view.classification, view.file, indent));
+  if (view.network) parts.push(formatNetwork(view.network, indent));
+  if (view.occurrences !== undefined) {
+    parts.push(`\n${indent}Occurrences: ${view.occurrences} (group ${view.fingerprint})`);
+  }
+  if (view.stack) {
+    const lines = view.stack.split('\n').map(line => `${indent}  ${line}`).join('\n');
+    parts.push(`\n${indent}Stack${view.symbolicated ? ' (symbolicated)' : ''}:\n${lines}`);
+  }
+  if (view.componentStack) {
+    const lines = view.componentStack.split('\n').map(line => `${indent}  ${line.trim()}`).join('\n');
+    parts.push(`\n${indent}Component Stack:\n${lines}`);
+  }
+  if (view.data !== undefined) parts.push(`\n${indent}Data: ${JSON.stringify(view.data)}`);
+  if (view.truncated) parts.push(`\n${indent}Truncated: ${view.truncated.join(', ')}`);
+  return parts.join(' ');
+}
+
+function formatClassification(
+  classification: NonNullable<EntryView['classification']>,
+  entryFile: string | undefined,
+  indent: string,
+): string {
+  const { category, file, line, column, modules, ...fields } = classification;
+  const details = Object.entries(fields).map(([key, value]) => `${key}: ${value}`);
+  const position = line !== undefined ? `${line}${column !== undefined ? `:${column}` : ''}` : undefined;
+  if (file && file !== entryFile) {
+    details.push(`at: ${file}${position ? `:${position}` : ''}`);
+  } else if (position) {
+    details.push(`line: ${position}`);
+  }
+  if (modules && modules.length > 0) details.push(`modules: ${modules.join(', ')}`);
+  return `\n${indent}Category: ${category}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+}
+
+function formatNetwork(network: NonNullable<EntryView['network']>, indent: string): string {
+  const lines = [`${indent}Duration: ${network.duration}ms`];
+  if (network.requestSize !== undefined || network.responseSize !== undefined) {
+    lines.push(`${indent}Size: request ${network.requestSize ?? '?'} B, response ${network.responseSize ?? '?'} B`);
+  }
+  if (network.error) lines.push(`${indent}Error: ${network.error}`);
+  if (network.requestHeaders) lines.push(`${indent}Request Headers: ${JSON.stringify(network.requestHeaders)}`);
+  if (network.requestBody) lines.push(`${indent}Request Body: ${network.requestBody}`);
+  if (network.responseHeaders) lines.push(`${indent}Response Headers: ${JSON.stringify(network.responseHeaders)}`);
+  if (network.responseBody) lines.push(`${indent}Response Body: ${network.responseBody}`);
+  return `\n${lines.join('\n')}`;
+}
+
+/**
+ * Format an entry view with an error/warning icon.
+ */
+export function formatProblem(view: EntryView): string {
+  const icon = view.type === 'error' ? '❌' : '⚠️';
+  return `${icon} ${formatEntry(view, '   ')}`;
+}
+
+export function formatBuild(view: BuildView): string {
+  const icon = view.status === 'failed' ? '❌' : view.status === 'success' ? '✅' : '⏳';
+  const parts = [
+    `${icon} Build ${view.id}${describeBuildTarget(view)} [${view.status.toUpperCase()}]`,
+    `  Started: ${view.startedAt}`,
+  ];
+  if (view.finishedAt) parts.push(`  Finished: ${view.finishedAt}`);
+  if (view.duration !== undefined) parts.push(`  Duration: ${view.duration}ms`);
+  if (view.hash) parts.push(`  Hash: ${view.hash}`);
+  parts.push(`  Errors: ${view.errorCount}, Warnings: ${view.warningCount}`);
+  if (view.changedFiles && view.changedFiles.length > 0) {
+    parts.push(`  Changed Files:\n${view.changedFiles.map(f => `    - ${f}`).join('\n')}`);
+  }
+  if (view.sourceMaps && view.sourceMaps.length > 0) {
+    parts.push(`  Source Maps:\n${view.sourceMaps.map(map => `    - ${map.bundle}: ${map.url ?? map.path}`).join('\n')}`);
+  }
+  if (view.truncated) parts.push(`  Truncated: ${view.truncated.join(', ')}`);
+  return parts.join('\n');
+}
+
+export function formatErrorGroup(view: ErrorGroupView): string {
+  const icon = view.type === 'error' ? '❌' : '⚠️';
+  const parts = [`${icon} ${view.fingerprint} (${view.count}x) ${view.lastMessage}`];
+  if (view.firstSeen) parts.push(`  First Seen: ${view.firstSeen}`);
+  parts.push(`  Last Seen: ${view.lastSeen}`);
+  if (view.normalizedMessage) parts.push(`  Normalized: ${view.normalizedMessage}`);
+  if (view.file) parts.push(`  File: ${view.file}`);
+  if (view.topFrame) parts.push(`  Top Frame: ${view.topFrame}`);
+  if (view.tags && view.tags.length > 0) parts.push(`  Tags: ${view.tags.join(', ')}`);
+  if (view.platforms && view.platforms.length > 0) parts.push(`  Platforms: ${view.platforms.join(', ')}`);
+  if (view.sources && view.sources.length > 0) parts.push(`  Sources: ${view.sources.join(', ')}`);
+  if (view.builds && view.builds.length > 0) parts.push(`  Builds: ${view.builds.join(', ')}`);
+  if (view.truncated) parts.push(`  Truncated: ${view.truncated.join(', ')}`);
+  return parts.join('\n');
+}
+
+export function formatSlowModules(report: SlowModulesReport): string {
+  const lines = [`Module timings from ${report.builds.length} build(s) (latest: ${report.builds[0]}):`];
+
+  if (report.regressions.length > 0) {
+    lines.push('', 'Regressions in the latest build:');
+    for (const regression of report.regressions) {
+      lines.push(`  🐢 ${regression.kind} ${regression.name}: ${regression.latestDuration}ms`
+        + ` (was ${regression.previousAverage}ms, ${regression.ratio}x)`
+        + (regression.kind === 'loader' ? ' per module' : ''));
+    }
+  }
+
+  lines.push('', 'Slowest modules (average):');
+  for (const module of report.modules) {
+    const loaders = module.loaders.length > 0 ? ` [${module.loaders.join(' ← ')}]` : '';
+    const latest = module.latestDuration !== undefined ? `, latest ${module.latestDuration}ms` : '';
+    lines.push(`  ${module.averageDuration}ms ${module.module}${loaders} (max ${module.maxDuration}ms in ${module.builds} build(s)${latest})`);
+  }
+
+  if (report.loaders.length > 0) {
+    lines.push('', 'Loaders (average per build):');
+    for (const loader of report.loaders) {
+      const latest = loader.latestDuration !== undefined ? `, latest ${loader.latestDuration}ms` : '';
+      lines.push(`  ${loader.averageDuration}ms ${loader.loader} (${loader.averagePerModule}ms per module${latest})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatBytes(bytes: number): string {
+  const size = Math.abs(bytes);
+  if (size >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  if (size >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+function formatDelta(bytes: number): string {
+  return `${bytes >= 0 ? '+' : '-'}${formatBytes(Math.abs(bytes))}`;
+}
+
+export function formatBundleReport(report: BundleReportResult): string {
+  const { build, comparedTo } = report;
+  if (!build) return 'No bundle report found.';
+
+  const lines = [`Bundle of build ${build.id}${describeBuildTarget(build)}: ${formatBytes(build.totalSize)} in ${build.assets.length} asset(s), ${build.moduleCount} module(s)`];
+  if (report.baselineSaved) lines.push(`Saved as the ${build.platform ?? 'default'} baseline.`);
+
+  if (comparedTo && report.totalDelta !== undefined) {
+    lines.push(`Compared to ${comparedTo.kind} build ${comparedTo.id} (${formatBytes(comparedTo.totalSize)}): ${formatDelta(report.totalDelta)}`);
+
+    if (report.assetChanges.length > 0) {
+      lines.push('', 'Changed assets:');
+      for (const asset of report.assetChanges) {
+        const change = asset.previousSize === 0 ? 'new' : asset.size === 0 ? 'removed' : `was ${formatBytes(asset.previousSize)}`;
+        lines.push(`  ${formatDelta(asset.delta)} ${asset.name} (${formatBytes(asset.size)}, ${change})`);
+      }
+    }
+    if (report.addedModules.length > 0) {
+      lines.push('', 'Added modules:');
+      lines.push(...report.addedModules.map(module => `  +${formatBytes(module.size)} ${module.name}`));
+    }
+    if (report.removedModules.length > 0) {
+      lines.push('', 'Removed modules:');
+      lines.push(...report.removedModules.map(module => `  -${formatBytes(module.size)} ${module.name}`));
+    }
+    if (report.grownModules.length > 0) {
+      lines.push('', 'Modules that grew:');
+      lines.push(...report.grownModules.map(module =>
+        `  ${formatDelta(module.delta)} ${module.name} (${formatBytes(module.previousSize)} → ${formatBytes(module.size)})`));
+    }
+  } else {
+    lines.push('No earlier bundle report to compare against.');
+  }
+
+  lines.push('', 'Assets:');
+  lines.push(...build.assets.map(asset => `  ${formatBytes(asset.size)} ${asset.name}`));
+  if (build.chunks.length > 0) {
+    lines.push('', 'Chunks:');
+    lines.push(...build.chunks.map(chunk => `  ${formatBytes(chunk.size)} ${chunk.name} (${chunk.files.join(', ')})`));
+  }
+  lines.push('', 'Largest modules:');
+  lines.push(...build.modules.map(module => `  ${formatBytes(module.size)} ${module.name}`));
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a code frame with the error's lines marked by `>` and a caret
+ * under the column when it is known.
+ */
+export function formatErrorContext(context: ErrorContextView): string {
+  const { location, frame } = context;
+  if (!location) return 'The entry has no source file position.';
+
+  const position = `${location.path}:${location.line}${location.column !== undefined ? `:${location.column}` : ''}`;
+  if (context.error) return `Cannot read ${position}: ${context.error}`;
+
+  const lines = [position];
+  if (context.fileChanged) {
+    lines.push(`⚠️ The file changed since the build (modified ${context.modifiedAt}); the code below may not be what the bundler saw.`);
+  }
+  lines.push('');
+
+  const endLine = location.endLine ?? location.line;
+  const width = String(frame[frame.length - 1]?.line ?? location.line).length;
+  for (const { line, text } of frame) {
+    const marked = line >= location.line && line <= endLine;
+    lines.push(`${marked ? '>' : ' '} ${String(line).padStart(width)} | ${text}`);
+
+    if (line === location.line && location.column !== undefined) {
+      // endColumn is inclusive; a range over several lines is marked to the end of its first line
+      const end = location.endLine === undefined || location.endLine === line ? location.endColumn : text.length;
+      const length = Math.max(1, (end ?? location.column) - location.column + 1);
+      lines.push(`  ${' '.repeat(width)} | ${' '.repeat(Math.max(0, location.column - 1))}${'^'.repeat(length)}`);
+    }
+  }
+  if (frame.length === 0) lines.push(`Line ${location.line} is past the end of the file.`);
+
+  return lines.join('\n');
+}
+
+const HMR_OUTCOME_ICONS: Record<HmrHistory['updates'][number]['devices'][number]['outcome'], string> = {
+  applied: '✅',
+  reloaded: '🔄',
+  failed: '❌',
+  skipped: '⏭️',
+  pending: '⏳',
+};
+
+export function formatHmrHistory(history: HmrHistory): string {
+  if (history.updates.length === 0 && history.devices.length === 0) {
+    return 'No hot updates or hot reloading events found.';
+  }
+
+  const lines: string[] = [];
+  if (history.devices.length > 0) {
+    lines.push('Devices:');
+    for (const device of history.devices) {
+      const state = device.upToDate === null ? 'unknown whether it runs the latest build (no hash to compare)'
+        : device.upToDate ? 'up to date' : 'NOT running the latest build';
+      const icon = device.upToDate === null ? '❔' : device.upToDate ? '✅' : '⚠️';
+      lines.push(`  ${icon} ${device.deviceName ?? device.deviceId}${device.platform ? ` (${device.platform})` : ''}: `
+        + `${state}, hash ${device.hash ?? 'unknown'} (last ${device.lastEvent} at ${device.lastEventAt})`);
+    }
+  } else {
+    lines.push('No device reported hot reloading events; call enableHmrReporting(module.hot) in the app.');
+  }
+
+  for (const update of history.updates) {
+    lines.push('', `Hot update ${update.buildId}${describeBuildTarget(update)}: ${update.previousHash} → ${update.hash ?? 'unknown'}`);
+    if (update.finishedAt) lines.push(`  Built: ${update.finishedAt}`);
+    if (update.changedFiles.length > 0) lines.push(`  Changed Files: ${update.changedFiles.join(', ')}`);
+    if (update.updatedModules.length > 0) lines.push(`  Updated Modules: ${update.updatedModules.join(', ')}`);
+    if (update.removedModules.length > 0) lines.push(`  Removed Modules: ${update.removedModules.join(', ')}`);
+    if (update.updatedChunks.length > 0) lines.push(`  Updated Chunks: ${update.updatedChunks.join(', ')}`);
+    if (update.removedChunks.length > 0) lines.push(`  Removed Chunks: ${update.removedChunks.join(', ')}`);
+    for (const device of update.devices) {
+      lines.push(`  ${HMR_OUTCOME_ICONS[device.outcome]} ${device.deviceName ?? device.deviceId}: ${device.outcome}${device.at ? ` at ${device.at}` : ''}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatDevice(device: DeviceRecord): string {
+  const os = [device.platform, device.osVersion].filter(Boolean).join(' ');
+  const parts = [
+    `📱 ${device.deviceName ?? device.deviceId}${os ? ` (${os})` : ''} [${device.deviceId}]`,
+  ];
+  if (device.appVersion) parts.push(`  App Version: ${device.appVersion}`);
+  parts.push(`  First Seen: ${device.firstSeen}`);
+  parts.push(`  Last Seen: ${device.lastSeen}`);
+  parts.push(`  Logs: ${device.logCount}`);
+  parts.push(`  Delivery: ${device.delivery.batches} batch(es), ${device.delivery.retriedBatches} retried, ${device.delivery.droppedCount} dropped`);
+  if (device.sessions.length > 0) {
+    const sessions = [...device.sessions].reverse().map(session =>
+      `    - ${session.sessionId}: ${session.startedAt} to ${session.lastSeen}, ${session.logCount} log(s)`
+      + (session.appVersion ? `, app ${session.appVersion}` : '')
+    );
+    parts.push(`  Sessions (most recent first):\n${sessions.join('\n')}`);
+  }
+  return parts.join('\n');
+}
+
+/** Format a duration as seconds, or minutes and seconds */
+function formatSeconds(ms: number): string {
+  return ms < 60000 ? `${Math.max(1, Math.round(ms / 1000))}s` : `${Math.floor(ms / 60000)}m ${Math.round(ms % 60000 / 1000)}s`;
+}
+
+/**
+ * One line for a running build: how far it is and how long it has left.
+ */
+export function formatCurrentBuild(build: CurrentBuild): string {
+  const parts = [`⏳ ${build.id}${describeBuildTarget(build)}`];
+  if (build.progress) {
+    const { percentage, phase, modulesBuilt, modulesTotal } = build.progress;
+    parts.push(`${percentage}% ${phase} (${modulesBuilt}/${modulesTotal} modules)`);
+  } else {
+    parts.push('compiling');
+  }
+  parts.push(`running for ${formatSeconds(build.elapsed)}`);
+  if (build.estimatedRemaining !== undefined) parts.push(`about ${formatSeconds(build.estimatedRemaining)} left`);
+  if (build.expectedDuration !== undefined) parts.push(`usually takes ${formatSeconds(build.expectedDuration)}`);
+  return parts.join(', ');
+}
+
+/**
+ * Format the watcher, runtime server and log statistics report.
+ */
+export function formatStatus(status: StatusReport): string {
+  const platformLines = status.platforms.flatMap(platform => [
+    ``,
+    `Platform: ${platform.platform}`,
+    `  Build Logs: ${platform.buildLogCount}`,
+    `  Runtime Logs: ${platform.runtimeLogCount}`,
+    `  Errors: ${platform.errorCount}`,
+    `  Warnings: ${platform.warningCount}`,
+    `  Latest Build: ${platform.latestBuild ? `${platform.latestBuild.id} [${platform.latestBuild.status.toUpperCase()}]` : 'None'}`,
+  ]);
+
+  const sourceLines = status.sources.flatMap(source => [
+    ``,
+    `Source: ${source.source}`,
+    `  Build Logs: ${source.buildLogCount}`,
+    `  Errors: ${source.errorCount}`,
+    `  Warnings: ${source.warningCount}`,
+    `  Latest Build: ${source.latestBuild ? `${source.latestBuild.id} [${source.latestBuild.status.toUpperCase()}]` : 'None'}`,
+  ]);
+
+  const fileLines = status.watcher.files.flatMap(file => [
+    `    ${file.source ? `[${file.source}] ` : ''}${file.filePath}${file.fileExists ? '' : ' (missing)'}`,
+    ...(file.parseFailures > 0 ? [`      Parse Failures: ${file.parseFailures}`] : []),
+    ...(file.lastParseFailure
+      ? [`      Last Parse Failure: ${file.lastParseFailure.at} ${file.lastParseFailure.error}: ${file.lastParseFailure.line}`]
+      : []),
+  ]);
+
+  const currentBuildLines = status.currentBuilds.length === 0 ? [] : [
+    ``,
+    `Builds in Progress:`,
+    ...status.currentBuilds.map(build => `  ${formatCurrentBuild(build)}`),
+  ];
+
+  const deviceLines = status.devices.length === 0 ? [] : [
+    ``,
+    `Devices:`,
+    ...status.devices.map(device => {
+      const { batches, retriedBatches, droppedCount, droppedByType } = device.delivery;
+      const dropped = droppedCount > 0
+        ? `, ${droppedCount} dropped (${Object.entries(droppedByType).map(([type, count]) => `${type}: ${count}`).join(', ')})`
+        : '';
+      return `  ${device.deviceName ?? device.deviceId} [${device.health.toUpperCase()}]: `
+        + `${batches} batch(es), ${retriedBatches} retried${dropped}, last seen ${device.lastSeen}`;
+    }),
+  ];
+
+  const lines = [
+    `Build Log Watcher:`,
+    `  Watching: ${status.watcher.watching ? 'Yes' : 'No'}`,
+    `  Log Sources: ${status.watcher.patterns.join(', ')}`,
+    `  Log Files:`,
+    ...(fileLines.length > 0 ? fileLines : ['    None found']),
+    ``,
+    `Log History:`,
+    `  Persistent: ${status.history.persistent ? 'Yes' : 'No'}`,
+    ...(status.history.directory ? [`  Directory: ${status.history.directory}`] : []),
+    ``,
+    `Runtime Log Server:`,
+    `  Port: ${status.runtimeServer.port}`,
+    `  URL: ${status.runtimeServer.url}`,
+    ...(status.runtimeServer.buildLogsReceived
+      ? [`  Build Logs Received: ${status.runtimeServer.buildLogsReceived} (last ${status.runtimeServer.lastBuildLogAt})`]
+      : []),
+    ``,
+    `Log Statistics:`,
+    `  Total Logs: ${status.stats.logCount}`,
+    `  Build Logs: ${status.stats.buildLogCount}`,
+    `  Runtime Logs: ${status.stats.runtimeLogCount}`,
+    `  Errors: ${status.stats.errorCount}`,
+    `  Warnings: ${status.stats.warningCount}`,
+    `  Last Update: ${status.stats.lastUpdate ?? 'Never'}`,
+    ...platformLines,
+    ...sourceLines,
+    ...currentBuildLines,
+    ...deviceLines,
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Size of a view in a response: its text, or its JSON with format 'json'.
+ */
+export function measureView<V>(view: V, options: OutputOptions, formatText: (view: V) => string): number {
+  return options.format === 'json' ? JSON.stringify(view, null, 2).length : formatText(view).length;
+}
+
+/**
+ * Render items until the character budget runs out. An item too large
+ * for what is left is retried at compact verbosity; once even that does
+ * not fit, the remaining items are reported as omitted by ID.
+ * At least one item is always returned.
+ */
+export async function fitToBudget<T, V>(
+  items: T[],
+  options: OutputOptions,
+  render: (item: T, verbosity: Verbosity) => V | Promise<V>,
+  formatText: (view: V) => string,
+  idOf: (item: T) => number | string | undefined,
+): Promise<Budgeted<V>> {
+  let remaining = options.maxChars - RESERVED_CHARS;
+  const result: V[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    let view = await render(items[i], options.verbosity);
+    let size = measureView(view, options, formatText);
+
+    if (size > remaining && options.verbosity !== 'compact') {
+      view = await render(items[i], 'compact');
+      size = measureView(view, options, formatText);
+    }
+
+    if (size > remaining && result.length > 0) {
+      const rest = items.slice(i);
+      return {
+        items: result,
+        omitted: {
+          count: rest.length,
+          ids: rest
+            .map(idOf)
+            .filter((id): id is number | string => id !== undefined)
+            .slice(0, MAX_OMITTED_IDS),
+        },
+      };
+    }
+
+    result.push(view);
+    remaining -= size + 2;
+  }
+
+  return { items: result };
+}
+
+/**
+ * Describe omitted items and how to fetch them.
+ */
+export function formatOmitted(omitted: Omitted | undefined, options: OutputOptions, followUp: string): string {
+  if (!omitted) return '';
+  const ids = omitted.ids.map(id => typeof id === 'number' ? `#${id}` : id).join(', ');
+  return `\n\n${omitted.count} more item(s) omitted to stay within ${options.maxChars} characters`
+    + `${ids ? `: ${ids}` : ''}. ${followUp}`;
+}
+
+/**
+ * Build a tool result carrying both text and structured content.
+ * In JSON format the text content is the structured result itself.
+ */
+export function toolResult<T extends Record<string, unknown>>(text: string, structured: T, options: { format: OutputFormat }) {
+  return {
+    content: [{
+      type: 'text' as const,
+      text: options.format === 'json' ? JSON.stringify(structured, null, 2) : text,
+    }],
+    structuredContent: structured,
+  };
+}
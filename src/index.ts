@@ -4,15 +4,155 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import { getConfig } from './config.js';
-import { LogStore } from './log-store.js';
-import { LogWatcher } from './log-watcher.js';
+import {
+  fitToBudget,
+  formatBuild,
+  formatBundleReport,
+  formatCurrentBuild,
+  formatDevice,
+  formatEntry,
+  formatErrorContext,
+  formatErrorGroup,
+  formatHmrHistory,
+  formatOmitted,
+  formatProblem,
+  formatSlowModules,
+  formatStatus,
+  measureView,
+  toBuildView,
+  toEntryView,
+  toErrorGroupView,
+  toolResult,
+  type OutputOptions,
+} from './format.js';
+import { LogArchive } from './log-archive.js';
+import {
+  getBundleReport,
+  getCurrentBuilds,
+  getErrorContext,
+  getHmrHistory,
+  getSlowModules,
+  getStatus,
+  listBuilds,
+  queryErrors,
+  queryLogs,
+  queryNetworkLogs,
+  queryRuntimeLogs,
+  type ErrorPage,
+  type LogPage,
+} from './log-queries.js';
+import { LogStore, isBuildLog } from './log-store.js';
+import { LogSources } from './log-sources.js';
+import { registerResources } from './resources.js';
+import { waitForBuild, waitForLog, type BuildOutcome } from './wait.js';
 import { RuntimeServer } from './runtime-server.js';
-import type { LogType } from './types.js';
+import { QueryError } from './query.js';
+import {
+  buildOutput,
+  buildsOutput,
+  bundleReportOutput,
+  clearOutput,
+  devicesOutput,
+  entriesOutput,
+  errorGroupsOutput,
+  errorCategorySchema,
+  errorContextOutput,
+  errorsOutput,
+  formatInput,
+  hmrHistoryOutput,
+  logsOutput,
+  outputOptionsInput,
+  slowModulesOutput,
+  statusOutput,
+  waitForBuildOutput,
+  waitForLogOutput,
+  type EntryView,
+} from './schemas.js';
+import { Symbolicator } from './symbolicator.js';
+import type { LogEntry, LogType, OutputFormat, Verbosity } from './types.js';
 
 const config = getConfig();
-const store = new LogStore(config.maxLogs);
-const watcher = new LogWatcher(config.logFilePath, store);
-const runtimeServer = new RuntimeServer({ port: config.runtimePort, store });
+const archive = config.historyDir
+  ? new LogArchive({
+    directory: config.historyDir,
+    maxAge: config.historyMaxAge,
+    maxSize: config.historyMaxSize,
+  })
+  : undefined;
+const store = new LogStore(config.maxLogs, config.maxDuplicates, archive);
+const sources = new LogSources(config.logSources, store);
+const runtimeServer: RuntimeServer = new RuntimeServer({
+  port: config.runtimePort,
+  store,
+  status: (platform, source) => getStatus({
+    store,
+    sources,
+    archive,
+    runtimePort: runtimeServer.activePort,
+    buildLogs: runtimeServer.buildLogs,
+  }, platform, source),
+});
+const symbolicator = new Symbolicator(store);
+
+/**
+ * Turn an invalid query or time into a tool error; rethrow anything else.
+ */
+function queryErrorResult(err: unknown) {
+  if (!(err instanceof QueryError)) throw err;
+  return {
+    content: [{
+      type: 'text' as const,
+      text: `Invalid query: ${err.message}`,
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Resolve the verbosity, budget and format arguments shared by the tools.
+ */
+function outputOptions(
+  args: { verbosity?: Verbosity; maxChars?: number; format?: OutputFormat },
+  defaultVerbosity: Verbosity = 'normal',
+): OutputOptions {
+  return {
+    verbosity: args.verbosity ?? defaultVerbosity,
+    maxChars: args.maxChars ?? config.maxResponseChars,
+    format: args.format ?? 'text',
+  };
+}
+
+/**
+ * Render entries as views within the response budget.
+ */
+function fitEntries(
+  logs: LogEntry[],
+  options: OutputOptions,
+  formatText: (view: EntryView) => string = formatEntry,
+  decorate?: (view: EntryView, log: LogEntry) => EntryView,
+) {
+  return fitToBudget(
+    logs,
+    options,
+    async (log, verbosity) => {
+      const view = await toEntryView(log, verbosity, symbolicator);
+      return decorate ? decorate(view, log) : view;
+    },
+    formatText,
+    log => log.id,
+  );
+}
+
+const ENTRY_FOLLOW_UP = 'Fetch them with get_log_entries, narrow the filters or raise maxChars.';
+
+function formatNextPage(nextCursor: number | string | null): string {
+  return nextCursor !== null ? `\n\nOlder results available: pass before: ${JSON.stringify(nextCursor)}` : '';
+}
+
+const beforeEntryInput = z.number().optional().describe('Only entries older than this entry ID (the nextCursor of a previous page)');
+const deviceInput = z.string().optional().describe('Only logs from this device ID, or devices whose name contains this (see list_devices)');
+const sessionInput = z.string().optional().describe('Only logs from this app session ID (see list_devices)');
+const sourceInput = z.string().optional().describe('Only this log source: a label given with label=path, or the directory name of a file matched by a glob (see get_status)');
 
 // Create MCP server
 const server = new McpServer({
@@ -21,240 +161,882 @@ const server = new McpServer({
 });
 
 // Tool: get_build_logs
-server.tool(
+server.registerTool(
   'get_build_logs',
-  'Get recent Re.Pack build logs with optional filtering',
   {
-    limit: z.number().optional().describe('Maximum number of logs to return (default: 50)'),
-    types: z.array(z.enum(['info', 'warn', 'error', 'debug', 'success', 'progress']))
-      .optional()
-      .describe('Filter by log type(s)'),
-    since: z.string().optional().describe('Only logs after this ISO timestamp'),
-    issuer: z.string().optional().describe('Filter by issuer/source name'),
-    search: z.string().optional().describe('Search in log messages'),
+    description: 'Get recent Re.Pack build logs with optional filtering',
+    inputSchema: {
+      limit: z.number().optional().describe('Maximum number of logs to return (default: 50)'),
+      types: z.array(z.enum(['info', 'warn', 'error', 'debug', 'success', 'progress']))
+        .optional()
+        .describe('Filter by log type(s)'),
+      since: z.string().optional().describe('Only logs after this ISO timestamp or relative time like "5m" (reads persisted history if older than the buffer)'),
+      until: z.string().optional().describe('Only logs before this ISO timestamp or relative time'),
+      issuer: z.string().optional().describe('Filter by issuer/source name'),
+      search: z.string().optional().describe('Search in log messages'),
+      platform: z.string().optional().describe('Filter by target platform (e.g. ios, android)'),
+      source: sourceInput,
+      query: z.string().optional().describe('Query expression, e.g. `level:error tag:Auth* data.status>=500 -"Each child"` (see query_logs)'),
+      before: beforeEntryInput,
+      ...outputOptionsInput,
+    },
+    outputSchema: logsOutput,
   },
   async (args) => {
-    const logs = store.get({
-      limit: args.limit ?? 50,
-      types: args.types as LogType[] | undefined,
-      since: args.since,
-      issuer: args.issuer,
-      search: args.search,
-    });
+    const options = outputOptions(args);
+    let page: LogPage;
+    try {
+      page = await queryLogs(store, {
+        limit: args.limit,
+        types: args.types as LogType[] | undefined,
+        since: args.since,
+        until: args.until,
+        issuer: args.issuer,
+        search: args.search,
+        platform: args.platform,
+        source: args.source,
+        query: args.query,
+        before: args.before,
+      });
+    } catch (err) {
+      return queryErrorResult(err);
+    }
 
+    const logs = page.entries;
     if (logs.length === 0) {
-      return {
-        content: [{
-          type: 'text',
-          text: 'No logs found matching the criteria.',
-        }],
-      };
+      return toolResult('No logs found matching the criteria.', { count: 0, entries: [], nextCursor: null }, options);
     }
 
-    const formatted = logs.map(log => {
-      const parts = [
-        `[${log.timestamp}]`,
-        `[${log.type.toUpperCase()}]`,
-      ];
-      if (log.issuer) parts.push(`[${log.issuer}]`);
-      parts.push(log.message);
-      if (log.file) parts.push(`\n  File: ${log.file}`);
-      if (log.stack) parts.push(`\n  Stack: ${log.stack}`);
-      return parts.join(' ');
-    }).join('\n\n');
-
-    return {
-      content: [{
-        type: 'text',
-        text: `Found ${logs.length} log(s):\n\n${formatted}`,
-      }],
-    };
+    const { items, omitted } = await fitEntries(logs, options);
+    return toolResult(
+      `Found ${logs.length} log(s):\n\n${items.map(view => formatEntry(view)).join('\n\n')}`
+        + formatOmitted(omitted, options, ENTRY_FOLLOW_UP)
+        + formatNextPage(page.nextCursor),
+      { count: logs.length, entries: items, omitted, nextCursor: page.nextCursor },
+      options,
+    );
+  }
+);
+
+// Tool: query_logs
+server.registerTool(
+  'query_logs',
+  {
+    description: [
+      'Search build and runtime logs with a query expression. Syntax:',
+      '- bare words and "quoted phrases" search message, file and request; /regex/flags matches them',
+      '- field:value (contains, * globs), field=value, field!=value, field>n, >=, <, <=, field~regex',
+      '- nested data paths (data.status>=500); aliases: tag, level, msg, build',
+      '- since:5m / until:<ISO> (relative units: s, m, h, d, w)',
+      '- AND (implicit), OR, NOT or -term, parentheses',
+      'Example: level:error tag:Auth* data.status>=500 since:2m -"Warning: Each child"',
+    ].join('\n'),
+    inputSchema: {
+      query: z.string().describe('Query expression'),
+      since: z.string().optional().describe('Only logs after this ISO timestamp or relative time like "5m" (reads persisted history if older than the buffer)'),
+      until: z.string().optional().describe('Only logs before this ISO timestamp or relative time'),
+      sort: z.enum(['newest', 'oldest']).optional().describe('Result order (default: newest first)'),
+      limit: z.number().optional().describe('Maximum number of logs to return (default: 50)'),
+      ...outputOptionsInput,
+    },
+    outputSchema: logsOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    let logs: LogEntry[];
+    try {
+      ({ entries: logs } = await queryLogs(store, {
+        query: args.query,
+        since: args.since,
+        until: args.until,
+        order: args.sort ?? 'newest',
+        limit: args.limit,
+      }));
+    } catch (err) {
+      return queryErrorResult(err);
+    }
+
+    if (logs.length === 0) {
+      return toolResult('No logs matched the query.', { count: 0, entries: [] }, options);
+    }
+
+    const { items, omitted } = await fitEntries(logs, options);
+    return toolResult(
+      `Found ${logs.length} log(s):\n\n${items.map(view => formatEntry(view)).join('\n\n')}`
+        + formatOmitted(omitted, options, ENTRY_FOLLOW_UP),
+      { count: logs.length, entries: items, omitted },
+      options,
+    );
+  }
+);
+
+// Tool: get_log_entries
+server.registerTool(
+  'get_log_entries',
+  {
+    description: 'Get specific log entries by ID (the #N shown by the other tools), in full by default',
+    inputSchema: {
+      ids: z.array(z.number()).describe('Entry IDs'),
+      ...outputOptionsInput,
+    },
+    outputSchema: entriesOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args, 'full');
+    const logs = store.getByIds(args.ids);
+    const found = new Set(logs.map(log => log.id));
+    const missing = args.ids.filter(id => !found.has(id));
+
+    const { items, omitted } = await fitEntries(logs, options);
+    const lines = items.map(view => formatEntry(view));
+    if (missing.length > 0) {
+      lines.push(`No longer in memory: ${missing.map(id => `#${id}`).join(', ')}`);
+    }
+
+    return toolResult(
+      (lines.length > 0 ? lines.join('\n\n') : 'No entries requested.')
+        + formatOmitted(omitted, options, 'Request fewer IDs at a time or raise maxChars.'),
+      { entries: items, missing, omitted },
+      options,
+    );
   }
 );
 
 // Tool: get_errors
-server.tool(
+server.registerTool(
   'get_errors',
-  'Get only errors and warnings from Re.Pack build logs',
   {
-    limit: z.number().optional().describe('Maximum number of errors to return (default: 20)'),
+    description: 'Get only errors and warnings from Re.Pack build logs',
+    inputSchema: {
+      limit: z.number().optional().describe('Maximum number of errors to return (default: 20)'),
+      platform: z.string().optional().describe('Filter by target platform (e.g. ios, android)'),
+      source: sourceInput,
+      since: z.string().optional().describe('Only errors after this ISO timestamp or relative time like "5m" (reads persisted history if older than the buffer)'),
+      until: z.string().optional().describe('Only errors before this ISO timestamp or relative time'),
+      query: z.string().optional().describe('Query expression, e.g. `level:error tag:Auth* data.status>=500 -"Each child"` (see query_logs)'),
+      category: errorCategorySchema.optional().describe('Only build errors of this kind; recognized errors carry a classification with the extracted request, file, line, loader or asset'),
+      device: deviceInput,
+      session: sessionInput,
+      before: beforeEntryInput,
+      ...outputOptionsInput,
+    },
+    outputSchema: errorsOutput,
   },
   async (args) => {
-    const errors = store.getErrors(args.limit ?? 20);
+    const options = outputOptions(args);
+    let page: ErrorPage;
+    try {
+      page = await queryErrors(store, {
+        limit: args.limit,
+        platform: args.platform,
+        source: args.source,
+        since: args.since,
+        until: args.until,
+        query: args.query,
+        category: args.category,
+        device: args.device,
+        session: args.session,
+        before: args.before,
+      });
+    } catch (err) {
+      return queryErrorResult(err);
+    }
+
+    const { entries: errors, errorCount, warningCount: warnCount, nextCursor } = page;
 
     if (errors.length === 0) {
+      return toolResult(
+        'No errors or warnings found.',
+        { errorCount, warningCount: warnCount, entries: [], nextCursor },
+        options,
+      );
+    }
+
+    const { items, omitted } = await fitEntries(errors, options, formatProblem, (view, log) => {
+      const group = log.fingerprint ? store.getErrorGroup(log.fingerprint) : undefined;
+      return group && group.count > 1 ? { ...view, occurrences: group.count } : view;
+    });
+
+    return toolResult(
+      `Found ${errorCount} error(s) and ${warnCount} warning(s):\n\n${items.map(formatProblem).join('\n\n')}`
+        + formatOmitted(omitted, options, ENTRY_FOLLOW_UP)
+        + formatNextPage(nextCursor),
+      { errorCount, warningCount: warnCount, entries: items, omitted, nextCursor },
+      options,
+    );
+  }
+);
+
+// Tool: get_error_groups
+server.registerTool(
+  'get_error_groups',
+  {
+    description: 'Get distinct errors and warnings grouped by fingerprint, with occurrence counts. Pass a fingerprint to see one group\'s occurrences.',
+    inputSchema: {
+      fingerprint: z.string().optional().describe('Show the recent occurrences of this group'),
+      sort: z.enum(['frequency', 'recency']).optional().describe('Rank groups by count or by last occurrence (default: frequency)'),
+      types: z.array(z.enum(['error', 'warn'])).optional().describe('Filter by log type(s)'),
+      platform: z.string().optional().describe('Filter by platform (e.g. ios, android)'),
+      source: sourceInput,
+      limit: z.number().optional().describe('Maximum number of groups or occurrences to return (default: 20)'),
+      ...outputOptionsInput,
+    },
+    outputSchema: errorGroupsOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+
+    if (args.fingerprint) {
+      const group = store.getErrorGroup(args.fingerprint);
+      if (!group) {
+        return toolResult(
+          `Error group ${args.fingerprint} not found.`,
+          { groups: [], occurrences: [] },
+          options,
+        );
+      }
+
+      const groupView = toErrorGroupView(group, options.verbosity);
+      const occurrences = store.getGroupOccurrences(group.fingerprint, args.limit ?? 20);
+      const { items, omitted } = await fitEntries(occurrences, {
+        ...options,
+        maxChars: Math.max(0, options.maxChars - measureView(groupView, options, formatErrorGroup)),
+      });
+
+      return toolResult(
+        `${formatErrorGroup(groupView)}\n\nLast ${occurrences.length} occurrence(s):\n\n${items.map(view => formatEntry(view)).join('\n\n')}`
+          + formatOmitted(omitted, options, ENTRY_FOLLOW_UP),
+        { group: groupView, groups: [], occurrences: items, omitted },
+        options,
+      );
+    }
+
+    const groups = store.getErrorGroups({
+      sort: args.sort,
+      types: args.types as LogType[] | undefined,
+      platform: args.platform,
+      source: args.source,
+      limit: args.limit ?? 20,
+    });
+
+    if (groups.length === 0) {
+      return toolResult('No errors or warnings found.', { groups: [], occurrences: [] }, options);
+    }
+
+    const { items, omitted } = await fitToBudget(
+      groups,
+      options,
+      toErrorGroupView,
+      formatErrorGroup,
+      group => group.fingerprint,
+    );
+
+    return toolResult(
+      `Found ${groups.length} distinct problem(s):\n\n${items.map(formatErrorGroup).join('\n\n')}`
+        + formatOmitted(omitted, options, 'Pass a fingerprint to see one group, or lower the limit.'),
+      { groups: items, occurrences: [], omitted },
+      options,
+    );
+  }
+);
+
+// Tool: get_error_context
+server.registerTool(
+  'get_error_context',
+  {
+    description: 'Get the source code around a build error or warning, read from disk, and whether the file changed since that build. Saves reading the file to see the offending line.',
+    inputSchema: {
+      id: z.number().optional().describe('Entry ID of the error or warning (default: the most recent build error with a source location)'),
+      platform: z.string().optional().describe('Filter by target platform (e.g. ios, android) when no ID is given'),
+      source: sourceInput,
+      contextLines: z.number().optional().describe('Lines to show before and after the error (default: 5, max: 50)'),
+      ...formatInput,
+    },
+    outputSchema: errorContextOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    const context = await getErrorContext(store, {
+      id: args.id,
+      platform: args.platform,
+      source: args.source,
+      contextLines: args.contextLines,
+    });
+
+    if (!context.entry) {
+      const text = args.id !== undefined
+        ? `Entry #${args.id} is no longer in memory.`
+        : 'No build errors or warnings with a source location found.';
+      return toolResult(text, { ...context, entry: null }, options);
+    }
+
+    const entry = await toEntryView(context.entry, 'compact');
+    return toolResult(
+      `${formatProblem(entry)}\n\n${formatErrorContext({ ...context, entry })}`,
+      { ...context, entry },
+      options,
+    );
+  }
+);
+
+// Tool: list_builds
+server.registerTool(
+  'list_builds',
+  {
+    description: 'List recent compilations with their status, duration, error counts and changed files',
+    inputSchema: {
+      limit: z.number().optional().describe('Maximum number of builds to return (default: 10)'),
+      platform: z.string().optional().describe('Filter by target platform (e.g. ios, android)'),
+      source: sourceInput,
+      before: z.string().optional().describe('Only builds older than this build ID (the nextCursor of a previous page)'),
+      ...outputOptionsInput,
+    },
+    outputSchema: buildsOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    const { builds, nextCursor } = listBuilds(store, {
+      limit: args.limit,
+      platform: args.platform,
+      source: args.source,
+      before: args.before,
+    });
+
+    if (builds.length === 0) {
+      return toolResult(
+        args.before
+          ? `No builds older than ${args.before}.`
+          : 'No builds recorded yet. Make sure RepackLogsPlugin is added to your Rspack config.',
+        { builds: [], nextCursor },
+        options,
+      );
+    }
+
+    const { items, omitted } = await fitToBudget(builds, options, toBuildView, formatBuild, build => build.id);
+
+    return toolResult(
+      `Found ${builds.length} build(s), most recent first:\n\n${items.map(formatBuild).join('\n\n')}`
+        + formatOmitted(omitted, options, 'Fetch them with get_build or lower the limit.')
+        + formatNextPage(nextCursor),
+      { builds: items, omitted, nextCursor },
+      options,
+    );
+  }
+);
+
+// Tool: get_build
+server.registerTool(
+  'get_build',
+  {
+    description: 'Get the full log of a single compilation (defaults to the latest build)',
+    inputSchema: {
+      id: z.string().optional().describe('Build ID from list_builds (default: latest)'),
+      platform: z.string().optional().describe('Pick the latest build for this platform when no ID is given'),
+      source: sourceInput,
+      ...outputOptionsInput,
+    },
+    outputSchema: buildOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    const build = args.id ? store.getBuild(args.id) : store.getBuilds(1, args.platform, args.source)[0];
+
+    if (!build) {
+      return toolResult(
+        args.id ? `Build ${args.id} not found.` : 'No builds recorded yet.',
+        { build: null, entries: [] },
+        options,
+      );
+    }
+
+    const buildView = toBuildView(build, options.verbosity);
+    const logs = store.get({ buildId: build.id });
+    const { items, omitted } = await fitEntries(logs, {
+      ...options,
+      maxChars: Math.max(0, options.maxChars - measureView(buildView, options, formatBuild)),
+    });
+
+    return toolResult(
+      (logs.length > 0
+        ? `${formatBuild(buildView)}\n\nLogs (${logs.length}):\n\n${items.map(view => formatEntry(view)).join('\n\n')}`
+        : `${formatBuild(buildView)}\n\nNo logs for this build remain in the buffer.`)
+        + formatOmitted(omitted, options, ENTRY_FOLLOW_UP),
+      { build: buildView, entries: items, omitted },
+      options,
+    );
+  }
+);
+
+// Tool: get_slow_modules
+server.registerTool(
+  'get_slow_modules',
+  {
+    description: 'Get the modules and loaders that take longest to build across recent builds, and flag those that got slower in the latest build (needs the plugin\'s moduleTimings option)',
+    inputSchema: {
+      platform: z.string().optional().describe('Only builds for this platform (e.g. ios, android)'),
+      source: sourceInput,
+      builds: z.number().optional().describe('Recent builds with timings to aggregate (default: 5)'),
+      limit: z.number().optional().describe('Maximum number of modules to list (default: 20)'),
+      ...formatInput,
+    },
+    outputSchema: slowModulesOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    const report = getSlowModules(store, { platform: args.platform, source: args.source, builds: args.builds, limit: args.limit });
+
+    if (report.builds.length === 0) {
+      return toolResult(
+        'No builds with module timings found. Enable them with `new RepackLogsPlugin({ moduleTimings: true })` and rebuild.',
+        report,
+        options,
+      );
+    }
+
+    return toolResult(formatSlowModules(report), report, options);
+  }
+);
+
+// Tool: get_bundle_report
+server.registerTool(
+  'get_bundle_report',
+  {
+    description: 'Get the asset, chunk and largest-module sizes of a build and what changed since the previous build or a saved baseline. Use it to find out what made the bundle grow.',
+    inputSchema: {
+      buildId: z.string().optional().describe('Build to report on (default: the latest build with a bundle report)'),
+      platform: z.string().optional().describe('Only builds for this platform (e.g. ios, android)'),
+      source: sourceInput,
+      compareTo: z.enum(['previous', 'baseline']).optional().describe('Diff against the previous build of the platform (default) or its saved baseline'),
+      saveBaseline: z.boolean().optional().describe('Save this build as the platform\'s baseline for later comparisons'),
+      limit: z.number().optional().describe('Maximum number of modules to list per section (default: 20)'),
+      ...formatInput,
+    },
+    outputSchema: bundleReportOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    const report = getBundleReport(store, {
+      buildId: args.buildId,
+      platform: args.platform,
+      source: args.source,
+      compareTo: args.compareTo,
+      saveBaseline: args.saveBaseline,
+      limit: args.limit,
+    });
+
+    if (!report.build) {
+      const text = args.buildId
+        ? `Build ${args.buildId} has no bundle report. Only the last 10 builds keep theirs.`
+        : 'No builds with a bundle report found. Make sure the plugin\'s bundleReport option is on and a build has finished.';
+      return toolResult(text, report, options);
+    }
+
+    let text = formatBundleReport(report);
+    if (args.compareTo === 'baseline' && !report.comparedTo) {
+      text += '\n\nNo baseline saved for this platform yet; call again with saveBaseline: true to save one.';
+    }
+    return toolResult(text, report, options);
+  }
+);
+
+// Tool: get_hmr_history
+server.registerTool(
+  'get_hmr_history',
+  {
+    description: 'Get recent hot updates (changed files, updated modules and chunks) and whether each device applied them, failed, or reloaded. Use it to check that the app actually runs the code you just edited; devices report events once the app calls enableHmrReporting(module.hot).',
+    inputSchema: {
+      platform: z.string().optional().describe('Only builds and devices for this platform (e.g. ios, android)'),
+      source: sourceInput,
+      device: deviceInput,
+      limit: z.number().optional().describe('Maximum number of hot updates to list (default: 10)'),
+      ...formatInput,
+    },
+    outputSchema: hmrHistoryOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    const history = getHmrHistory(store, {
+      platform: args.platform,
+      source: args.source,
+      device: args.device,
+      limit: args.limit,
+    });
+    return toolResult(formatHmrHistory(history), history, options);
+  }
+);
+
+const MAX_WAIT_SECONDS = 300;
+/** Below the 60s request timeout of MCP clients, so a running build's progress is reported instead */
+const DEFAULT_BUILD_WAIT_SECONDS = 50;
+
+// Tool: wait_for_build
+server.registerTool(
+  'wait_for_build',
+  {
+    description: 'Wait until the next compilation finishes and report its outcome, including errors that are new or resolved since the previous build. Call this after editing a file instead of get_errors. Sends progress notifications while the build runs; on timeout, reports how far a running build is and its ETA.',
+    inputSchema: {
+      timeout: z.number().optional().describe('Seconds to wait before giving up (default: 50, max: 300)'),
+      file: z.string().optional().describe('Only accept a build triggered by a change to this file'),
+      platform: z.string().optional().describe('Only accept a build for this platform (e.g. ios, android)'),
+      source: sourceInput,
+      since: z.string().optional().describe('Also accept builds that started after this ISO timestamp or relative time, even if already finished'),
+      ...formatInput,
+    },
+    outputSchema: waitForBuildOutput,
+  },
+  async (args, extra) => {
+    const options = outputOptions(args);
+    const timeout = Math.min(args.timeout ?? DEFAULT_BUILD_WAIT_SECONDS, MAX_WAIT_SECONDS);
+    const progressToken = extra._meta?.progressToken;
+    // Progress notifications must increase, so skip drops between builds
+    let lastProgress = 0;
+
+    let outcome: BuildOutcome | null;
+    try {
+      outcome = await waitForBuild(store, {
+        timeout: timeout * 1000,
+        file: args.file,
+        platform: args.platform,
+        source: args.source,
+        since: args.since,
+        signal: extra.signal,
+        onProgress: (build) => {
+          if (progressToken === undefined || !build.progress || build.progress.percentage <= lastProgress) return;
+          lastProgress = build.progress.percentage;
+          const current = getCurrentBuilds(store, build.platform, build.source).find(candidate => candidate.id === build.id);
+          extra.sendNotification({
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress: build.progress.percentage,
+              total: 100,
+              ...(current && { message: formatCurrentBuild(current) }),
+            },
+          }).catch(() => {});
+        },
+      });
+    } catch (err) {
+      return queryErrorResult(err);
+    }
+
+    if (!outcome) {
+      const inProgress = getCurrentBuilds(store, args.platform, args.source)[0];
+      return toolResult(
+        `No matching build finished within ${timeout}s.${args.file ? ` Make sure ${args.file} is part of the bundle.` : ''}`
+          + (inProgress ? `\n\nStill compiling: ${formatCurrentBuild(inProgress)}` : ''),
+        { timedOut: true, inProgress, newErrors: [], resolvedErrors: [] },
+        options,
+      );
+    }
+
+    const build = toBuildView(outcome.build, options.verbosity);
+    const previous = outcome.previous && toBuildView(outcome.previous, 'compact');
+    const newErrors = outcome.newErrors.map(group => toErrorGroupView(group, 'compact'));
+    const resolvedErrors = outcome.resolvedErrors.map(group => toErrorGroupView(group, 'compact'));
+
+    const lines = [formatBuild(build)];
+    if (previous) {
+      lines.push(``, `Compared with build ${previous.id} [${previous.status.toUpperCase()}]:`);
+      lines.push(`  New Problems: ${newErrors.length}`);
+      for (const group of newErrors) {
+        lines.push(`    + [${group.type.toUpperCase()}] ${group.lastMessage} (${group.fingerprint})`);
+      }
+      lines.push(`  Resolved Problems: ${resolvedErrors.length}`);
+      for (const group of resolvedErrors) {
+        lines.push(`    - [${group.type.toUpperCase()}] ${group.lastMessage} (${group.fingerprint})`);
+      }
+    } else if (newErrors.length > 0) {
+      lines.push(``, `Problems:`);
+      for (const group of newErrors) {
+        lines.push(`  [${group.type.toUpperCase()}] ${group.lastMessage} (${group.fingerprint})`);
+      }
+    }
+
+    return toolResult(
+      lines.join('\n'),
+      { timedOut: false, build, previous, newErrors, resolvedErrors },
+      options,
+    );
+  }
+);
+
+// Tool: wait_for_log
+server.registerTool(
+  'wait_for_log',
+  {
+    description: 'Wait until the React Native app logs a message matching a pattern and/or tag (e.g. "screen mounted")',
+    inputSchema: {
+      pattern: z.string().optional().describe('Regular expression matched against the message (case-insensitive)'),
+      tag: z.string().optional().describe('Only accept logs with this tag/component name'),
+      types: z.array(z.enum(['info', 'warn', 'error', 'debug']))
+        .optional()
+        .describe('Only accept these log type(s)'),
+      platform: z.string().optional().describe('Only accept logs from this platform (e.g. ios, android)'),
+      device: deviceInput,
+      session: sessionInput,
+      timeout: z.number().optional().describe('Seconds to wait before giving up (default: 30, max: 300)'),
+      since: z.string().optional().describe('Also accept logs that arrived after this ISO timestamp or relative time like "1m"'),
+      ...outputOptionsInput,
+    },
+    outputSchema: waitForLogOutput,
+  },
+  async (args, extra) => {
+    const options = outputOptions(args);
+    const timeout = Math.min(args.timeout ?? 30, MAX_WAIT_SECONDS);
+
+    let log: LogEntry | null;
+    try {
+      log = await waitForLog(store, {
+        timeout: timeout * 1000,
+        pattern: args.pattern,
+        tag: args.tag,
+        types: args.types as LogType[] | undefined,
+        platform: args.platform,
+        device: args.device,
+        session: args.session,
+        since: args.since,
+        signal: extra.signal,
+      });
+    } catch (err) {
+      if (err instanceof QueryError) return queryErrorResult(err);
       return {
         content: [{
           type: 'text',
-          text: 'No errors or warnings found.',
+          text: `Invalid pattern: ${(err as Error).message}`,
         }],
+        isError: true,
       };
     }
 
-    const formatted = errors.map(log => {
-      const icon = log.type === 'error' ? '❌' : '⚠️';
-      const parts = [
-        `${icon} [${log.timestamp}]`,
-        `[${log.type.toUpperCase()}]`,
-      ];
-      if (log.issuer) parts.push(`[${log.issuer}]`);
-      parts.push(log.message);
-      if (log.file) parts.push(`\n   File: ${log.file}`);
-      if (log.stack) parts.push(`\n   Stack: ${log.stack}`);
-      return parts.join(' ');
-    }).join('\n\n');
-
-    const errorCount = errors.filter(e => e.type === 'error').length;
-    const warnCount = errors.filter(e => e.type === 'warn').length;
-
-    return {
-      content: [{
-        type: 'text',
-        text: `Found ${errorCount} error(s) and ${warnCount} warning(s):\n\n${formatted}`,
-      }],
-    };
+    if (!log) {
+      return toolResult(`No matching runtime log within ${timeout}s.`, { timedOut: true }, options);
+    }
+
+    const { items: [entry] } = await fitEntries([log], options);
+    return toolResult(
+      `Matched runtime log:\n\n${formatEntry(entry)}`,
+      { timedOut: false, entry },
+      options,
+    );
   }
 );
 
 // Tool: clear_logs
-server.tool(
+server.registerTool(
   'clear_logs',
-  'Clear all logs from the in-memory buffer',
-  {},
-  async () => {
+  {
+    description: 'Clear all logs from the in-memory buffer',
+    inputSchema: {
+      ...formatInput,
+    },
+    outputSchema: clearOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
     const count = store.count;
     store.clear();
 
-    return {
-      content: [{
-        type: 'text',
-        text: `Cleared ${count} log(s) from buffer.`,
-      }],
-    };
+    return toolResult(`Cleared ${count} log(s) from buffer.`, { cleared: count }, options);
   }
 );
 
 // Tool: get_runtime_logs
-server.tool(
+server.registerTool(
   'get_runtime_logs',
-  'Get runtime logs from the React Native app (console.log output)',
   {
-    limit: z.number().optional().describe('Maximum number of logs to return (default: 50)'),
-    tag: z.string().optional().describe('Filter by log tag/component name'),
-    types: z.array(z.enum(['info', 'warn', 'error', 'debug']))
-      .optional()
-      .describe('Filter by log type(s)'),
-    search: z.string().optional().describe('Search in log messages'),
+    description: 'Get runtime logs from the React Native app (console.log output)',
+    inputSchema: {
+      limit: z.number().optional().describe('Maximum number of logs to return (default: 50)'),
+      tag: z.string().optional().describe('Filter by log tag/component name'),
+      types: z.array(z.enum(['info', 'warn', 'error', 'debug']))
+        .optional()
+        .describe('Filter by log type(s)'),
+      search: z.string().optional().describe('Search in log messages'),
+      platform: z.string().optional().describe('Filter by app platform (e.g. ios, android)'),
+      device: deviceInput,
+      session: sessionInput,
+      since: z.string().optional().describe('Only logs after this ISO timestamp or relative time like "5m" (reads persisted history if older than the buffer)'),
+      until: z.string().optional().describe('Only logs before this ISO timestamp or relative time'),
+      query: z.string().optional().describe('Query expression, e.g. `level:error tag:Auth* data.status>=500 -"Each child"` (see query_logs)'),
+      ...outputOptionsInput,
+    },
+    outputSchema: logsOutput,
   },
   async (args) => {
-    // Filter out build logs (webpack, repack issuers)
-    const buildIssuers = ['webpack', 'repack', 'watcher'];
-    const allLogs = store.get({ limit: 1000 });
-    let runtimeLogs = allLogs.filter(log => !buildIssuers.includes(log.issuer ?? ''));
-
-    // Apply additional filters
-    if (args.tag) {
-      runtimeLogs = runtimeLogs.filter(log => log.issuer === args.tag);
+    const options = outputOptions(args);
+
+    let runtimeLogs: LogEntry[];
+    try {
+      runtimeLogs = await queryRuntimeLogs(store, {
+        limit: args.limit,
+        tag: args.tag,
+        types: args.types as LogType[] | undefined,
+        search: args.search,
+        platform: args.platform,
+        device: args.device,
+        session: args.session,
+        since: args.since,
+        until: args.until,
+        query: args.query,
+      });
+    } catch (err) {
+      return queryErrorResult(err);
+    }
+
+    if (runtimeLogs.length === 0) {
+      return toolResult(
+        'No runtime logs found. Make sure your app is using the repack-logs-mcp client.\n\nSetup:\n1. Import: import { createLogger } from \'repack-logs-mcp/client\';\n2. Create: const log = createLogger(\'MyComponent\');\n3. Use: log.info(\'message\'), log.error(\'message\', data)',
+        { count: 0, entries: [] },
+        options,
+      );
     }
-    if (args.types) {
-      runtimeLogs = runtimeLogs.filter(log => args.types!.includes(log.type as any));
+
+    const { items, omitted } = await fitEntries(runtimeLogs, options);
+    return toolResult(
+      `Found ${runtimeLogs.length} runtime log(s):\n\n${items.map(view => formatEntry(view)).join('\n\n')}`
+        + formatOmitted(omitted, options, ENTRY_FOLLOW_UP),
+      { count: runtimeLogs.length, entries: items, omitted },
+      options,
+    );
+  }
+);
+
+// Tool: get_network_logs
+server.registerTool(
+  'get_network_logs',
+  {
+    description: 'Get HTTP requests made by the React Native app (captured by the client\'s enableNetworkCapture), with status, duration, sizes and truncated bodies',
+    inputSchema: {
+      limit: z.number().optional().describe('Maximum number of requests to return (default: 50)'),
+      url: z.string().optional().describe('Regular expression matched against the URL (case-insensitive), e.g. "/api/users"'),
+      method: z.string().optional().describe('Only this HTTP method (e.g. POST)'),
+      minStatus: z.number().optional().describe('Only responses with at least this status, e.g. 400 for client and server errors'),
+      maxStatus: z.number().optional().describe('Only responses with at most this status, e.g. 499'),
+      failed: z.boolean().optional().describe('true: only requests that got no response (network error, timeout, abort); false: only those that did'),
+      minDuration: z.number().optional().describe('Only requests that took at least this many milliseconds'),
+      platform: z.string().optional().describe('Filter by app platform (e.g. ios, android)'),
+      device: deviceInput,
+      session: sessionInput,
+      since: z.string().optional().describe('Only requests after this ISO timestamp or relative time like "5m"'),
+      until: z.string().optional().describe('Only requests before this ISO timestamp or relative time'),
+      before: beforeEntryInput,
+      ...outputOptionsInput,
+    },
+    outputSchema: logsOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    let page: LogPage;
+    try {
+      page = await queryNetworkLogs(store, {
+        limit: args.limit,
+        url: args.url,
+        method: args.method,
+        minStatus: args.minStatus,
+        maxStatus: args.maxStatus,
+        failed: args.failed,
+        minDuration: args.minDuration,
+        platform: args.platform,
+        device: args.device,
+        session: args.session,
+        since: args.since,
+        until: args.until,
+        before: args.before,
+      });
+    } catch (err) {
+      return queryErrorResult(err);
     }
-    if (args.search) {
-      const searchLower = args.search.toLowerCase();
-      runtimeLogs = runtimeLogs.filter(log =>
-        log.message.toLowerCase().includes(searchLower)
+
+    const requests = page.entries;
+    if (requests.length === 0) {
+      return toolResult(
+        'No network requests found. Network capture is opt-in: call enableNetworkCapture() from \'repack-logs-mcp/client\' at app startup.',
+        { count: 0, entries: [], nextCursor: null },
+        options,
       );
     }
 
-    // Apply limit
-    runtimeLogs = runtimeLogs.slice(0, args.limit ?? 50);
+    const { items, omitted } = await fitEntries(requests, options);
+    return toolResult(
+      `Found ${requests.length} network request(s):\n\n${items.map(view => formatEntry(view)).join('\n\n')}`
+        + formatOmitted(omitted, options, ENTRY_FOLLOW_UP)
+        + formatNextPage(page.nextCursor),
+      { count: requests.length, entries: items, omitted, nextCursor: page.nextCursor },
+      options,
+    );
+  }
+);
 
-    if (runtimeLogs.length === 0) {
-      return {
-        content: [{
-          type: 'text',
-          text: 'No runtime logs found. Make sure your app is using the repack-logs-mcp client.\n\nSetup:\n1. Import: import { createLogger } from \'repack-logs-mcp/client\';\n2. Create: const log = createLogger(\'MyComponent\');\n3. Use: log.info(\'message\'), log.error(\'message\', data)',
-        }],
-      };
+// Tool: list_devices
+server.registerTool(
+  'list_devices',
+  {
+    description: 'List devices that have sent runtime logs, with their app sessions (one per launch), most recently seen first',
+    inputSchema: {
+      platform: z.string().optional().describe('Only devices on this platform (e.g. ios, android)'),
+      ...formatInput,
+    },
+    outputSchema: devicesOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    const devices = store.getDevices(args.platform);
+
+    if (devices.length === 0) {
+      return toolResult(
+        'No devices have sent runtime logs yet. Devices appear once the app logs through the repack-logs-mcp client.',
+        { devices: [] },
+        options,
+      );
     }
 
-    const formatted = runtimeLogs.map(log => {
-      const parts = [
-        `[${log.timestamp}]`,
-        `[${log.type.toUpperCase()}]`,
-      ];
-      if (log.issuer) parts.push(`[${log.issuer}]`);
-      parts.push(log.message);
-      if (log.file) parts.push(`\n  File: ${log.file}`);
-      if ((log as any).data) parts.push(`\n  Data: ${JSON.stringify((log as any).data, null, 2)}`);
-      return parts.join(' ');
-    }).join('\n\n');
-
-    return {
-      content: [{
-        type: 'text',
-        text: `Found ${runtimeLogs.length} runtime log(s):\n\n${formatted}`,
-      }],
-    };
+    return toolResult(
+      `${devices.length} device(s):\n\n${devices.map(formatDevice).join('\n\n')}`,
+      { devices },
+      options,
+    );
   }
 );
 
 // Tool: get_status
-server.tool(
+server.registerTool(
   'get_status',
-  'Get the current status of the log watcher and runtime server',
-  {},
-  async () => {
-    const buildIssuers = ['webpack', 'repack', 'watcher'];
-    const allLogs = store.get({ limit: 10000 });
-    const buildLogs = allLogs.filter(log => buildIssuers.includes(log.issuer ?? ''));
-    const runtimeLogs = allLogs.filter(log => !buildIssuers.includes(log.issuer ?? ''));
-
-    const status = {
-      watching: watcher.isWatching,
-      filePath: watcher.path,
-      fileExists: watcher.fileExists,
-      logCount: store.count,
-      buildLogCount: buildLogs.length,
-      runtimeLogCount: runtimeLogs.length,
-      errorCount: store.countByType('error'),
-      warningCount: store.countByType('warn'),
-      lastUpdate: store.lastTimestamp,
-      runtimeServerPort: runtimeServer.activePort,
-    };
-
-    const lines = [
-      `Build Log Watcher:`,
-      `  Watching: ${status.watching ? 'Yes' : 'No'}`,
-      `  Log File: ${status.filePath}`,
-      `  File Exists: ${status.fileExists ? 'Yes' : 'No'}`,
-      ``,
-      `Runtime Log Server:`,
-      `  Port: ${status.runtimeServerPort}`,
-      `  URL: http://localhost:${status.runtimeServerPort}`,
-      ``,
-      `Log Statistics:`,
-      `  Total Logs: ${status.logCount}`,
-      `  Build Logs: ${status.buildLogCount}`,
-      `  Runtime Logs: ${status.runtimeLogCount}`,
-      `  Errors: ${status.errorCount}`,
-      `  Warnings: ${status.warningCount}`,
-      `  Last Update: ${status.lastUpdate ?? 'Never'}`,
-    ];
-
-    return {
-      content: [{
-        type: 'text',
-        text: lines.join('\n'),
-      }],
-    };
+  {
+    description: 'Get the current status of the log sources and runtime server, with a breakdown per platform and log source',
+    inputSchema: {
+      platform: z.string().optional().describe('Only report statistics for this platform (e.g. ios, android)'),
+      source: sourceInput,
+      ...formatInput,
+    },
+    outputSchema: statusOutput,
+  },
+  async (args) => {
+    const options = outputOptions(args);
+    const status = getStatus({
+      store,
+      sources,
+      archive,
+      runtimePort: runtimeServer.activePort,
+      buildLogs: runtimeServer.buildLogs,
+    }, args.platform, args.source);
+
+    return toolResult(formatStatus(status), status, options);
   }
 );
 
+// Resources: repack://status, repack://builds/latest, repack://errors, repack://runtime/{tag}
+registerResources(server, { store, sources, runtimeServer });
+
 // Start the server
 async function main() {
-  // Start watching the log file
-  await watcher.start();
+  // Reload persisted history before the watchers re-read the log files
+  if (archive) {
+    await archive.open();
+    await store.restore();
+  }
+
+  // Start watching the log files
+  await sources.start();
 
   // Start the runtime log HTTP server
   await runtimeServer.start();
@@ -265,14 +1047,16 @@ async function main() {
 
   // Handle shutdown
   process.on('SIGINT', async () => {
-    await watcher.stop();
+    await sources.stop();
     await runtimeServer.stop();
+    await archive?.close();
     process.exit(0);
   });
 
   process.on('SIGTERM', async () => {
-    await watcher.stop();
+    await sources.stop();
     await runtimeServer.stop();
+    await archive?.close();
     process.exit(0);
   });
 }
@@ -0,0 +1,216 @@
+import { createWriteStream, mkdirSync, type WriteStream } from 'fs';
+import { readdir, readFile, stat, unlink } from 'fs/promises';
+import path from 'path';
+import type { LogEntry } from './types.js';
+
+export interface LogArchiveOptions {
+  /** Directory holding the NDJSON segments */
+  directory: string;
+  /** Delete segments last written longer ago than this (ms) */
+  maxAge: number;
+  /** Delete the oldest segments while the archive is larger than this (bytes) */
+  maxSize: number;
+  /** Start a new segment once the current one reaches this size (bytes) */
+  segmentSize?: number;
+}
+
+export interface TimeRange {
+  since?: Date;
+  until?: Date;
+}
+
+const DEFAULT_SEGMENT_SIZE = 4 * 1024 * 1024;
+const SEGMENT_PATTERN = /^logs-(\d+)\.ndjson$/;
+
+interface Segment {
+  file: string;
+  /** Time the segment was started (ms) */
+  startedAt: number;
+}
+
+/**
+ * Persistent log history stored as rotating NDJSON segments.
+ * Each segment is named after the time it was started, so a time
+ * range can skip segments that were closed before it began.
+ */
+export class LogArchive {
+  private directory: string;
+  private maxAge: number;
+  private maxSize: number;
+  private segmentSize: number;
+  private stream: WriteStream | null = null;
+  private currentSize = 0;
+  private lastStartedAt = 0;
+
+  constructor(options: LogArchiveOptions) {
+    this.directory = options.directory;
+    this.maxAge = options.maxAge;
+    this.maxSize = options.maxSize;
+    this.segmentSize = options.segmentSize ?? DEFAULT_SEGMENT_SIZE;
+  }
+
+  /**
+   * Create the directory, apply retention and start a fresh segment.
+   */
+  async open(): Promise<void> {
+    mkdirSync(this.directory, { recursive: true });
+    await this.prune();
+    this.rotate();
+  }
+
+  /**
+   * Append an entry to the current segment.
+   */
+  append(entry: LogEntry): void {
+    if (!this.stream) return;
+
+    const line = JSON.stringify(entry) + '\n';
+    this.stream.write(line);
+    this.currentSize += Buffer.byteLength(line);
+
+    if (this.currentSize >= this.segmentSize) {
+      this.rotate();
+      this.prune().catch(() => {
+        // Retention is retried on the next rotation
+      });
+    }
+  }
+
+  /**
+   * Read the most recent entries, oldest first.
+   */
+  async readRecent(limit: number): Promise<LogEntry[]> {
+    const segments = await this.listSegments();
+    const result: LogEntry[] = [];
+
+    for (let i = segments.length - 1; i >= 0 && result.length < limit; i--) {
+      const entries = await this.readSegment(segments[i]);
+      result.unshift(...entries.slice(-(limit - result.length)));
+    }
+
+    return result;
+  }
+
+  /**
+   * Read all entries within a time range, oldest first.
+   */
+  async read(range: TimeRange): Promise<LogEntry[]> {
+    const segments = await this.listSegments();
+    const since = range.since?.getTime() ?? -Infinity;
+    const until = range.until?.getTime() ?? Infinity;
+    const result: LogEntry[] = [];
+
+    for (let i = 0; i < segments.length; i++) {
+      // Entries are written after they happen, so a segment closed before
+      // `since` cannot hold matches. Its start says nothing about `until`,
+      // as replayed build logs can be older than the segment.
+      const end = segments[i + 1]?.startedAt ?? Infinity;
+      if (end < since) continue;
+
+      for (const entry of await this.readSegment(segments[i])) {
+        const time = new Date(entry.timestamp).getTime();
+        if (time >= since && time <= until) result.push(entry);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Flush and close the current segment.
+   */
+  async close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (!stream) return;
+    await new Promise<void>(resolve => stream.end(() => resolve()));
+  }
+
+  get path(): string {
+    return this.directory;
+  }
+
+  private rotate(): void {
+    this.stream?.end();
+
+    // Keep segment names unique and ordered even within the same millisecond
+    const startedAt = Math.max(Date.now(), this.lastStartedAt + 1);
+    this.lastStartedAt = startedAt;
+
+    const file = path.join(this.directory, `logs-${String(startedAt).padStart(15, '0')}.ndjson`);
+    this.stream = createWriteStream(file, { flags: 'a' });
+    this.stream.on('error', (err) => {
+      console.error('[LogArchive] Failed to write log history:', err);
+    });
+    this.currentSize = 0;
+  }
+
+  /**
+   * Delete segments past the age limit, then the oldest ones
+   * until the archive fits the size limit.
+   */
+  private async prune(): Promise<void> {
+    const segments = await this.listSegments();
+    const cutoff = Date.now() - this.maxAge;
+    const sizes: Array<{ file: string; size: number }> = [];
+
+    for (const segment of segments) {
+      try {
+        const stats = await stat(segment.file);
+        if (stats.mtimeMs < cutoff) {
+          await unlink(segment.file);
+        } else {
+          sizes.push({ file: segment.file, size: stats.size });
+        }
+      } catch {
+        // Segment removed concurrently
+      }
+    }
+
+    let total = sizes.reduce((sum, segment) => sum + segment.size, 0);
+    // Never delete the segment currently being written (always last)
+    for (const segment of sizes.slice(0, -1)) {
+      if (total <= this.maxSize) break;
+      await unlink(segment.file).catch(() => {});
+      total -= segment.size;
+    }
+  }
+
+  private async listSegments(): Promise<Segment[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    return files
+      .map(file => ({ file, match: file.match(SEGMENT_PATTERN) }))
+      .filter((item): item is { file: string; match: RegExpMatchArray } => item.match !== null)
+      .map(item => ({
+        file: path.join(this.directory, item.file),
+        startedAt: parseInt(item.match[1], 10),
+      }))
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  private async readSegment(segment: Segment): Promise<LogEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(segment.file, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: LogEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip lines cut off by a crash mid-write
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,761 @@
+import path from 'node:path';
+import { readCodeFrame, type CodeFrameLine } from './code-frame.js';
+import type { LogArchive } from './log-archive.js';
+import { isBuildLog, isNetworkLog, type LogStore } from './log-store.js';
+import type { LogSources } from './log-sources.js';
+import { QueryError } from './query.js';
+import type { BundleReportResult, CurrentBuild, HmrHistory, SlowModulesReport, StatusReport } from './schemas.js';
+import type {
+  BuildRecord,
+  BundleReport,
+  DeliveryHealth,
+  HmrEvent,
+  HotUpdate,
+  LogEntry,
+  LogFilter,
+  LogType,
+  SourceLocation,
+} from './types.js';
+
+/**
+ * Queries behind both the MCP tools and the runtime server's HTTP API,
+ * so the two always apply the same filters, defaults and paging.
+ * All of them throw QueryError on an invalid query or time.
+ */
+
+export interface LogPage {
+  entries: LogEntry[];
+  /** Entry ID to pass as `before` for the next, older page; null on the last page */
+  nextCursor: number | null;
+}
+
+export interface ErrorPage extends LogPage {
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface BuildPage {
+  /** Most recent first */
+  builds: BuildRecord[];
+  /** Build ID to pass as `before` for the next, older page; null on the last page */
+  nextCursor: string | null;
+}
+
+export interface RuntimeLogQuery {
+  limit?: number;
+  /** Exact tag (issuer) */
+  tag?: string;
+  types?: LogType[];
+  /** Searched in messages only */
+  search?: string;
+  platform?: string;
+  /** Device ID, or part of a device name */
+  device?: string;
+  session?: string;
+  since?: string;
+  until?: string;
+  query?: string;
+}
+
+export interface NetworkLogQuery {
+  limit?: number;
+  /** Regular expression matched against the URL (case-insensitive) */
+  url?: string;
+  method?: string;
+  minStatus?: number;
+  maxStatus?: number;
+  /** Only requests that got no response */
+  failed?: boolean;
+  /** Only requests that took at least this many milliseconds */
+  minDuration?: number;
+  platform?: string;
+  device?: string;
+  session?: string;
+  since?: string;
+  until?: string;
+  query?: string;
+  before?: number;
+}
+
+export interface ErrorContext {
+  /** The error or warning; null if the requested entry is not in memory */
+  entry: LogEntry | null;
+  /** Null if the entry has no source file position */
+  location: (SourceLocation & { path: string }) | null;
+  frame: CodeFrameLine[];
+  /** The file was modified after the build started, so it may differ from what the bundler saw */
+  fileChanged: boolean;
+  modifiedAt?: string;
+  /** Why the file could not be read */
+  error?: string;
+}
+
+export interface StatusSources {
+  store: LogStore;
+  sources: LogSources;
+  archive?: LogArchive;
+  runtimePort: number;
+  /** Build logs the plugin sent to the runtime server over HTTP */
+  buildLogs?: { received: number; lastReceivedAt?: string };
+}
+
+const DEFAULT_LOG_LIMIT = 50;
+const DEFAULT_ERROR_LIMIT = 20;
+const DEFAULT_BUILD_LIMIT = 10;
+/** Recent entries get_runtime_logs searches through */
+const RUNTIME_SCAN_LIMIT = 1000;
+/** Builds get_slow_modules looks at by default */
+const DEFAULT_TIMING_BUILDS = 5;
+const DEFAULT_SLOW_MODULE_LIMIT = 20;
+/** The latest build must be this many times slower, and by this many ms, to count as a regression */
+const REGRESSION_RATIO = 1.5;
+const REGRESSION_MIN_MS = 50;
+const DEFAULT_BUNDLE_MODULE_LIMIT = 20;
+/** Finished builds of the same kind whose durations predict a running one */
+const ETA_HISTORY_BUILDS = 5;
+/** Progress needed before the remaining time is extrapolated from it */
+const MIN_ETA_PERCENTAGE = 10;
+const DEFAULT_CONTEXT_LINES = 5;
+const MAX_CONTEXT_LINES = 50;
+const DEFAULT_HMR_LIMIT = 10;
+/** How long a retry or drop keeps a device's delivery marked unhealthy */
+const DELIVERY_HEALTH_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Get one page of the most recent logs matching a filter
+ * (oldest first unless `order` is 'newest').
+ */
+export async function queryLogs(store: LogStore, filter: LogFilter = {}): Promise<LogPage> {
+  const limit = filter.limit && filter.limit > 0 ? filter.limit : DEFAULT_LOG_LIMIT;
+
+  // One extra entry tells whether an older page exists
+  const entries = await store.query({ ...filter, limit: limit + 1, order: 'oldest' });
+  const hasMore = entries.length > limit;
+  if (hasMore) entries.shift();
+
+  const nextCursor = hasMore ? entries[0].id ?? null : null;
+  if (filter.order === 'newest') entries.reverse();
+
+  return { entries, nextCursor };
+}
+
+/**
+ * Get one page of errors and warnings, with counts for the page.
+ */
+export async function queryErrors(store: LogStore, filter: Omit<LogFilter, 'types'> = {}): Promise<ErrorPage> {
+  const page = await queryLogs(store, {
+    ...filter,
+    types: ['error', 'warn'],
+    limit: filter.limit ?? DEFAULT_ERROR_LIMIT,
+  });
+
+  return {
+    ...page,
+    errorCount: page.entries.filter(log => log.type === 'error').length,
+    warningCount: page.entries.filter(log => log.type === 'warn').length,
+  };
+}
+
+/**
+ * Get logs from the React Native app, leaving out build and network logs.
+ */
+export async function queryRuntimeLogs(store: LogStore, options: RuntimeLogQuery = {}): Promise<LogEntry[]> {
+  const logs = await store.query({
+    limit: RUNTIME_SCAN_LIMIT,
+    platform: options.platform,
+    device: options.device,
+    session: options.session,
+    since: options.since,
+    until: options.until,
+    query: options.query,
+  });
+  let runtimeLogs = logs.filter(log => !isBuildLog(log) && !isNetworkLog(log));
+
+  if (options.tag) {
+    runtimeLogs = runtimeLogs.filter(log => log.issuer === options.tag);
+  }
+  if (options.types && options.types.length > 0) {
+    runtimeLogs = runtimeLogs.filter(log => options.types!.includes(log.type));
+  }
+  if (options.search) {
+    const searchLower = options.search.toLowerCase();
+    runtimeLogs = runtimeLogs.filter(log =>
+      log.message.toLowerCase().includes(searchLower)
+    );
+  }
+
+  return runtimeLogs.slice(0, options.limit ?? DEFAULT_LOG_LIMIT);
+}
+
+/**
+ * Get one page of the most recent HTTP requests captured by the client
+ * (oldest first). Searches the same recent window as get_runtime_logs.
+ */
+export async function queryNetworkLogs(store: LogStore, options: NetworkLogQuery = {}): Promise<LogPage> {
+  const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_LOG_LIMIT;
+
+  let url: RegExp | undefined;
+  try {
+    url = options.url ? new RegExp(options.url, 'i') : undefined;
+  } catch (err) {
+    throw new QueryError(`url is not a valid regular expression: ${(err as Error).message}`);
+  }
+
+  const logs = await store.query({
+    limit: RUNTIME_SCAN_LIMIT,
+    platform: options.platform,
+    device: options.device,
+    session: options.session,
+    since: options.since,
+    until: options.until,
+    query: options.query,
+    before: options.before,
+  });
+
+  const requests = logs.filter(log => {
+    const request = log.network;
+    if (!request || !isNetworkLog(log)) return false;
+    if (url && !url.test(request.url)) return false;
+    if (options.method && request.method !== options.method.toUpperCase()) return false;
+    if (options.failed !== undefined && (request.status === undefined) !== options.failed) return false;
+    if (options.minStatus !== undefined && (request.status ?? 0) < options.minStatus) return false;
+    if (options.maxStatus !== undefined && (request.status === undefined || request.status > options.maxStatus)) return false;
+    if (options.minDuration !== undefined && request.duration < options.minDuration) return false;
+    return true;
+  });
+
+  const entries = requests.slice(-limit);
+  return {
+    entries,
+    nextCursor: requests.length > limit ? entries[0].id ?? null : null,
+  };
+}
+
+/**
+ * Get one page of build records, most recent first.
+ * An unknown `before` build (e.g. one dropped since) yields an empty page.
+ */
+export function listBuilds(store: LogStore, options: {
+  limit?: number;
+  platform?: string;
+  source?: string;
+  before?: string;
+} = {}): BuildPage {
+  const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_BUILD_LIMIT;
+  let builds = store.getBuilds(undefined, options.platform, options.source);
+
+  if (options.before) {
+    const index = builds.findIndex(build => build.id === options.before);
+    builds = index >= 0 ? builds.slice(index + 1) : [];
+  }
+
+  const page = builds.slice(0, limit);
+  return {
+    builds: page,
+    nextCursor: builds.length > limit ? page[page.length - 1].id : null,
+  };
+}
+
+const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+/**
+ * Aggregate the module timings of the most recent builds that have them:
+ * the slowest modules and loaders, and those that got markedly slower
+ * in the latest build. Loaders are compared per module, since rebuilds
+ * only build the modules that changed.
+ */
+export function getSlowModules(store: LogStore, options: {
+  platform?: string;
+  source?: string;
+  builds?: number;
+  limit?: number;
+} = {}): SlowModulesReport {
+  const window = options.builds && options.builds > 0 ? options.builds : DEFAULT_TIMING_BUILDS;
+  const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_SLOW_MODULE_LIMIT;
+  const builds = store.getBuilds(undefined, options.platform, options.source)
+    // Rebuilds that built nothing (e.g. served from cache) say nothing about timings
+    .filter(build => build.timings && build.timings.moduleCount > 0)
+    .slice(0, window);
+
+  const [latest, ...previous] = builds.map(build => build.timings!);
+  if (!latest) return { builds: [], modules: [], loaders: [], regressions: [] };
+
+  const modules = new Map<string, { loaders: string[]; durations: number[] }>();
+  const loaders = new Map<string, { durations: number[]; modules: number }>();
+  for (const timings of [latest, ...previous]) {
+    for (const timing of timings.modules) {
+      const stats = modules.get(timing.module) ?? { loaders: timing.loaders, durations: [] };
+      stats.durations.push(timing.duration);
+      modules.set(timing.module, stats);
+    }
+    for (const timing of timings.loaders) {
+      const stats = loaders.get(timing.loader) ?? { durations: [], modules: 0 };
+      stats.durations.push(timing.duration);
+      stats.modules += timing.modules;
+      loaders.set(timing.loader, stats);
+    }
+  }
+
+  const latestModules = new Map(latest.modules.map(timing => [timing.module, timing.duration]));
+  const latestLoaders = new Map(latest.loaders.map(timing => [timing.loader, timing]));
+
+  const regressions: SlowModulesReport['regressions'] = [];
+  const checkRegression = (kind: 'module' | 'loader', name: string, latestDuration: number, earlier: number[]) => {
+    if (earlier.length === 0) return;
+    const previousAverage = average(earlier);
+    if (latestDuration >= previousAverage * REGRESSION_RATIO && latestDuration - previousAverage >= REGRESSION_MIN_MS) {
+      regressions.push({
+        kind,
+        name,
+        latestDuration,
+        previousAverage,
+        ratio: Math.round(latestDuration / Math.max(previousAverage, 1) * 10) / 10,
+      });
+    }
+  };
+
+  for (const timing of latest.modules) {
+    const earlier = previous.flatMap(timings =>
+      timings.modules.filter(candidate => candidate.module === timing.module).map(candidate => candidate.duration)
+    );
+    checkRegression('module', timing.module, timing.duration, earlier);
+  }
+  for (const timing of latest.loaders) {
+    const earlier = previous.flatMap(timings =>
+      timings.loaders.filter(candidate => candidate.loader === timing.loader)
+        .map(candidate => candidate.duration / candidate.modules)
+    );
+    checkRegression('loader', timing.loader, Math.round(timing.duration / timing.modules), earlier);
+  }
+
+  return {
+    builds: builds.map(build => build.id),
+    modules: [...modules.entries()]
+      .map(([module, stats]) => ({
+        module,
+        loaders: stats.loaders,
+        builds: stats.durations.length,
+        averageDuration: average(stats.durations),
+        maxDuration: Math.max(...stats.durations),
+        latestDuration: latestModules.get(module),
+      }))
+      .sort((a, b) => b.averageDuration - a.averageDuration)
+      .slice(0, limit),
+    loaders: [...loaders.entries()]
+      .map(([loader, stats]) => ({
+        loader,
+        averageDuration: average(stats.durations),
+        averagePerModule: Math.round(stats.durations.reduce((sum, value) => sum + value, 0) / stats.modules),
+        latestDuration: latestLoaders.get(loader)?.duration,
+      }))
+      .sort((a, b) => b.averageDuration - a.averageDuration),
+    regressions: regressions.sort((a, b) => (b.latestDuration - b.previousAverage) - (a.latestDuration - a.previousAverage)),
+  };
+}
+
+/**
+ * Diff the largest modules of two bundle reports. Reports only list the
+ * largest modules, so a module missing from one side only counts as added
+ * or removed if it is large enough that that side would have listed it.
+ */
+function diffModules(current: BundleReport, previous: BundleReport) {
+  const smallestListed = (report: BundleReport) =>
+    report.modules.length < report.moduleCount ? report.modules[report.modules.length - 1]?.size ?? 0 : 0;
+  const currentSizes = new Map(current.modules.map(module => [module.name, module.size]));
+  const previousSizes = new Map(previous.modules.map(module => [module.name, module.size]));
+
+  const added = current.modules
+    .filter(module => !previousSizes.has(module.name) && module.size > smallestListed(previous));
+  const removed = previous.modules
+    .filter(module => !currentSizes.has(module.name) && module.size > smallestListed(current));
+  const grown = current.modules
+    .filter(module => (previousSizes.get(module.name) ?? Infinity) < module.size)
+    .map(module => {
+      const previousSize = previousSizes.get(module.name)!;
+      return { ...module, previousSize, delta: module.size - previousSize };
+    })
+    .sort((a, b) => b.delta - a.delta);
+
+  return { added, removed, grown };
+}
+
+/**
+ * Get the bundle report of a build (default: the latest one with a report)
+ * and diff it against the previous report of its source and platform or
+ * the saved baseline. With `saveBaseline`, the build becomes the new baseline after
+ * the comparison.
+ */
+export function getBundleReport(store: LogStore, options: {
+  buildId?: string;
+  platform?: string;
+  source?: string;
+  compareTo?: 'previous' | 'baseline';
+  saveBaseline?: boolean;
+  limit?: number;
+} = {}): BundleReportResult {
+  const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_BUNDLE_MODULE_LIMIT;
+  const empty: BundleReportResult = {
+    build: null,
+    comparedTo: null,
+    assetChanges: [],
+    addedModules: [],
+    removedModules: [],
+    grownModules: [],
+  };
+
+  const withReports = (platform?: string, source?: string) => store.getBuilds(undefined, platform, source)
+    .filter((build): build is BuildRecord & { bundle: BundleReport } => build.bundle !== undefined);
+
+  const build = options.buildId
+    ? withReports().find(candidate => candidate.id === options.buildId)
+    : withReports(options.platform, options.source)[0];
+  if (!build) return empty;
+
+  let compared: { id: string; kind: 'previous' | 'baseline'; bundle: BundleReport } | undefined;
+  if (options.compareTo === 'baseline') {
+    const baseline = store.getBundleBaseline(build.platform, build.source);
+    if (baseline) compared = { id: baseline.buildId, kind: 'baseline', bundle: baseline.bundle };
+  } else {
+    const reports = withReports(build.platform, build.source);
+    const previous = reports[reports.indexOf(build) + 1];
+    if (previous) compared = { id: previous.id, kind: 'previous', bundle: previous.bundle };
+  }
+
+  if (options.saveBaseline) store.saveBundleBaseline(build);
+
+  const { bundle } = build;
+  const result: BundleReportResult = {
+    ...empty,
+    build: {
+      id: build.id,
+      platform: build.platform,
+      ...(build.source && { source: build.source }),
+      totalSize: bundle.totalSize,
+      moduleCount: bundle.moduleCount,
+      assets: bundle.assets,
+      chunks: bundle.chunks,
+      modules: bundle.modules.slice(0, limit),
+    },
+    ...(options.saveBaseline && { baselineSaved: true }),
+  };
+  if (!compared) return result;
+
+  const previousAssets = new Map(compared.bundle.assets.map(asset => [asset.name, asset.size]));
+  const currentAssets = new Map(bundle.assets.map(asset => [asset.name, asset.size]));
+  const assetChanges = [...new Set([...currentAssets.keys(), ...previousAssets.keys()])]
+    .map(name => {
+      const size = currentAssets.get(name) ?? 0;
+      const previousSize = previousAssets.get(name) ?? 0;
+      return { name, size, previousSize, delta: size - previousSize };
+    })
+    .filter(change => change.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const modules = diffModules(bundle, compared.bundle);
+  return {
+    ...result,
+    comparedTo: { id: compared.id, kind: compared.kind, totalSize: compared.bundle.totalSize },
+    totalDelta: bundle.totalSize - compared.bundle.totalSize,
+    assetChanges,
+    addedModules: modules.added.slice(0, limit),
+    removedModules: modules.removed.slice(0, limit),
+    grownModules: modules.grown.slice(0, limit),
+  };
+}
+
+/**
+ * Find the source file and position an error or warning points at: the
+ * location the plugin recorded, else the one its classification extracted
+ * from the message (e.g. the file and line of a syntax error).
+ */
+function errorLocation(entry: LogEntry): ErrorContext['location'] {
+  if (entry.loc && entry.filePath) return { path: entry.filePath, ...entry.loc };
+
+  const { classification } = entry;
+  if (classification?.file && classification.line !== undefined) {
+    const filePath = path.isAbsolute(classification.file)
+      ? classification.file
+      : classification.file === entry.file ? entry.filePath : undefined;
+    if (filePath) {
+      return {
+        path: filePath,
+        line: classification.line,
+        ...(classification.column !== undefined && { column: classification.column }),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the code around a build error or warning, read from disk: the given
+ * entry, or the most recent one with a source location.
+ */
+export async function getErrorContext(store: LogStore, options: {
+  id?: number;
+  platform?: string;
+  source?: string;
+  contextLines?: number;
+} = {}): Promise<ErrorContext> {
+  const contextLines = Math.min(Math.max(options.contextLines ?? DEFAULT_CONTEXT_LINES, 0), MAX_CONTEXT_LINES);
+
+  const entry = options.id !== undefined
+    ? store.getByIds([options.id])[0]
+    : store.getErrors(undefined, options.platform, options.source).reverse().find(log => isBuildLog(log) && errorLocation(log));
+  const context: ErrorContext = { entry: entry ?? null, location: null, frame: [], fileChanged: false };
+  if (!entry) return context;
+
+  const location = errorLocation(entry);
+  if (!location) return context;
+
+  try {
+    const { lines, modifiedAt } = await readCodeFrame(location.path, location, contextLines);
+    const build = entry.buildId ? store.getBuild(entry.buildId) : undefined;
+    const builtAt = Date.parse(build?.startedAt ?? entry.timestamp);
+    return {
+      ...context,
+      location,
+      frame: lines,
+      fileChanged: modifiedAt.getTime() > builtAt,
+      modifiedAt: modifiedAt.toISOString(),
+    };
+  } catch (err) {
+    return { ...context, location, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Describe a running build and estimate how long it has left: the median
+ * duration of recent finished builds of the same source, platform and kind (an
+ * initial build or a rebuild after file changes) minus the time elapsed.
+ * Without history, or once the build runs longer than usual, the estimate
+ * is extrapolated from the reported percentage.
+ */
+function describeCurrentBuild(store: LogStore, build: BuildRecord): CurrentBuild {
+  const elapsed = Math.max(0, Date.now() - Date.parse(build.startedAt));
+  const isRebuild = build.changedFiles.length > 0;
+  const durations = store.getBuilds(undefined, build.platform, build.source)
+    .filter(candidate => candidate.status !== 'building' && candidate.duration !== undefined
+      && (candidate.changedFiles.length > 0) === isRebuild)
+    .slice(0, ETA_HISTORY_BUILDS)
+    .map(candidate => candidate.duration!);
+  const expectedDuration = durations.length > 0 ? median(durations) : undefined;
+
+  let estimatedRemaining: number | undefined;
+  if (expectedDuration !== undefined && expectedDuration > elapsed) {
+    estimatedRemaining = expectedDuration - elapsed;
+  } else if (build.progress && build.progress.percentage >= MIN_ETA_PERCENTAGE) {
+    const { percentage } = build.progress;
+    estimatedRemaining = Math.round(elapsed * (100 - percentage) / percentage);
+  }
+
+  return {
+    id: build.id,
+    platform: build.platform,
+    ...(build.source && { source: build.source }),
+    startedAt: build.startedAt,
+    elapsed,
+    ...(build.progress && { progress: build.progress, progressAt: build.progressAt }),
+    ...(expectedDuration !== undefined && { expectedDuration }),
+    ...(estimatedRemaining !== undefined && { estimatedRemaining }),
+  };
+}
+
+/**
+ * Get the builds still compiling: the latest build of each source and
+ * platform, if it has not finished.
+ */
+export function getCurrentBuilds(store: LogStore, platform?: string, source?: string): CurrentBuild[] {
+  const latest = new Map<string, BuildRecord>();
+  for (const build of store.getBuilds(undefined, platform, source)) {
+    const key = `${build.source?.toLowerCase() ?? ''}|${build.platform?.toLowerCase() ?? ''}`;
+    if (!latest.has(key)) latest.set(key, build);
+  }
+
+  return [...latest.values()]
+    .filter(build => build.status === 'building')
+    .map(build => describeCurrentBuild(store, build));
+}
+
+type HmrLog = LogEntry & { hmr: HmrEvent };
+
+/**
+ * Decide what a device did with a hot update from its events (oldest
+ * first). Loading the update's code wins over an earlier failure, since
+ * a failed update is usually followed by a reload onto the same build.
+ */
+function hmrOutcome(build: BuildRecord & { hotUpdate: HotUpdate }, events: HmrLog[]): HmrHistory['updates'][number]['devices'][number] {
+  const { deviceId, deviceName } = events[events.length - 1];
+  const device = { deviceId: deviceId ?? 'unknown', ...(deviceName && { deviceName }) };
+  const finishedAt = build.finishedAt ?? build.startedAt;
+
+  const loaded = build.hash ? events.find(({ hmr }) => hmr.hash === build.hash
+    && (hmr.event === 'applied' || hmr.event === 'load')) : undefined;
+  if (loaded) return { ...device, outcome: loaded.hmr.event === 'applied' ? 'applied' : 'reloaded', at: loaded.timestamp };
+
+  const failed = events.find(({ hmr, timestamp }) => hmr.event === 'failed' && timestamp >= finishedAt
+    && (hmr.previousHash ?? hmr.hash) === build.hotUpdate.previousHash);
+  if (failed) return { ...device, outcome: 'failed', at: failed.timestamp };
+
+  // Newer code loaded since then means this update was passed over
+  const movedOn = events.some(({ hmr, timestamp }) => timestamp >= finishedAt
+    && (hmr.event === 'applied' || hmr.event === 'load') && hmr.hash !== build.hotUpdate.previousHash);
+  return { ...device, outcome: movedOn ? 'skipped' : 'pending' };
+}
+
+/**
+ * Correlate the hot updates the plugin recorded with the hot reloading
+ * events the client reported, to tell whether each device runs the code
+ * of the latest build.
+ */
+export function getHmrHistory(store: LogStore, options: {
+  platform?: string;
+  /** Only hot updates built from this log source */
+  source?: string;
+  device?: string;
+  limit?: number;
+} = {}): HmrHistory {
+  const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_HMR_LIMIT;
+
+  const byDevice = new Map<string, HmrLog[]>();
+  for (const entry of store.get({ platform: options.platform, device: options.device })) {
+    if (!entry.hmr) continue;
+    const key = entry.deviceId ?? 'unknown';
+    if (!byDevice.has(key)) byDevice.set(key, []);
+    byDevice.get(key)!.push(entry as HmrLog);
+  }
+  const devices = [...byDevice.values()];
+  const samePlatform = (a?: string, b?: string) => !a || !b || a.toLowerCase() === b.toLowerCase();
+
+  const updates = store.getBuilds(undefined, options.platform, options.source)
+    .filter((build): build is BuildRecord & { hotUpdate: HotUpdate } => build.hotUpdate !== undefined)
+    .slice(0, limit)
+    .map(build => ({
+      buildId: build.id,
+      platform: build.platform,
+      ...(build.source && { source: build.source }),
+      hash: build.hash,
+      finishedAt: build.finishedAt,
+      changedFiles: build.changedFiles,
+      ...build.hotUpdate,
+      devices: devices
+        .filter(events => samePlatform(events[events.length - 1].platform, build.platform))
+        .map(events => hmrOutcome(build, events)),
+    }));
+
+  return {
+    updates,
+    devices: devices.map(events => {
+      const last = events[events.length - 1];
+      const hash = last.hmr.hash;
+      // Compare with the app the device runs: the source of the build it reported
+      const builds = store.getBuilds(undefined, last.platform);
+      const source = options.source ?? builds.find(build => hash !== undefined && build.hash === hash)?.source;
+      const latestHash = builds
+        .find(build => build.status === 'success' && (!source || build.source?.toLowerCase() === source.toLowerCase()))
+        ?.hash;
+      return {
+        deviceId: last.deviceId ?? 'unknown',
+        ...(last.deviceName && { deviceName: last.deviceName }),
+        ...(last.platform && { platform: last.platform }),
+        ...(last.hmr.hash && { hash: last.hmr.hash }),
+        lastEvent: last.hmr.event,
+        lastEventAt: last.timestamp,
+        upToDate: hash !== undefined && latestHash !== undefined ? hash === latestHash : null,
+      };
+    }),
+  };
+}
+
+function deliveryHealth(delivery: DeliveryHealth): 'healthy' | 'retrying' | 'dropping' {
+  const recent = (time?: string) => time !== undefined && Date.now() - Date.parse(time) < DELIVERY_HEALTH_WINDOW_MS;
+  if (recent(delivery.lastDropAt)) return 'dropping';
+  if (recent(delivery.lastRetryAt)) return 'retrying';
+  return 'healthy';
+}
+
+/**
+ * Summarise the log sources, runtime server and buffered logs,
+ * with a breakdown per platform and log source, the builds in progress
+ * and the delivery health of each device.
+ */
+export function getStatus(statusSources: StatusSources, platform?: string, source?: string): StatusReport {
+  const { store, sources, archive, runtimePort, buildLogs } = statusSources;
+  const allLogs = store.get({ limit: 10000, platform, source });
+  const count = (logs: LogEntry[]) => ({
+    buildLogCount: logs.filter(log => isBuildLog(log)).length,
+    runtimeLogCount: logs.filter(log => !isBuildLog(log)).length,
+    errorCount: logs.filter(log => log.type === 'error').length,
+    warningCount: logs.filter(log => log.type === 'warn').length,
+  });
+
+  const platforms = (platform ? [platform] : store.platforms).map(name => {
+    const logs = allLogs.filter(log => log.platform?.toLowerCase() === name.toLowerCase());
+    const build = store.getBuilds(1, name, source)[0];
+    return {
+      platform: name,
+      ...count(logs),
+      latestBuild: build ? { id: build.id, status: build.status } : null,
+    };
+  });
+
+  const logSources = (source ? [source] : store.sources).map(name => {
+    const logs = allLogs.filter(log => log.source?.toLowerCase() === name.toLowerCase());
+    const build = store.getBuilds(1, platform, name)[0];
+    return {
+      source: name,
+      buildLogCount: logs.length,
+      errorCount: logs.filter(log => log.type === 'error').length,
+      warningCount: logs.filter(log => log.type === 'warn').length,
+      latestBuild: build ? { id: build.id, status: build.status } : null,
+    };
+  });
+
+  return {
+    watcher: {
+      watching: sources.isWatching,
+      patterns: sources.patterns,
+      files: sources.files.map(({ source: label, watcher }) => ({
+        ...(label && { source: label }),
+        filePath: watcher.path,
+        fileExists: watcher.fileExists,
+        parseFailures: watcher.parseFailures.count,
+        ...(watcher.parseFailures.last && { lastParseFailure: watcher.parseFailures.last }),
+      })),
+    },
+    history: {
+      persistent: archive !== undefined,
+      directory: archive?.path,
+    },
+    runtimeServer: {
+      port: runtimePort,
+      url: `http://localhost:${runtimePort}`,
+      ...(buildLogs && {
+        buildLogsReceived: buildLogs.received,
+        ...(buildLogs.lastReceivedAt && { lastBuildLogAt: buildLogs.lastReceivedAt }),
+      }),
+    },
+    stats: {
+      logCount: allLogs.length,
+      ...count(allLogs),
+      lastUpdate: store.lastTimestamp,
+    },
+    platforms,
+    sources: logSources,
+    currentBuilds: getCurrentBuilds(store, platform, source),
+    devices: store.getDevices(platform).map(device => ({
+      deviceId: device.deviceId,
+      deviceName: device.deviceName,
+      platform: device.platform,
+      lastSeen: device.lastSeen,
+      health: deliveryHealth(device.delivery),
+      delivery: device.delivery,
+    })),
+  };
+}
@@ -0,0 +1,199 @@
+import { watch, type FSWatcher } from 'chokidar';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import type { LogSourceSpec } from './config.js';
+import { LogStore } from './log-store.js';
+import { LogWatcher } from './log-watcher.js';
+
+/** Directories never searched for log files */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+/**
+ * Files the plugin's `clearOnStart` keeps from previous builds, e.g.
+ * `.repack-logs.1.json`. Their entries were read from the live file.
+ */
+const ROTATED_FILE = /\.\d+(\.[^./]+)?$/;
+
+export interface LogSourceFile {
+  /** Source name of the file's entries; unset for a single unlabelled file */
+  source?: string;
+  watcher: LogWatcher;
+}
+
+export function isGlob(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a glob to a regular expression matching whole paths.
+ * Supports `*`, `?`, `**` (any number of directories) and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The directory a glob's matches are all in: its path up to the first
+ * segment with a wildcard.
+ */
+function globBase(pattern: string): string {
+  const segments = pattern.split('/');
+  const wildcard = segments.findIndex(isGlob);
+  return segments.slice(0, wildcard).join('/') || '/';
+}
+
+/**
+ * Watches the configured log files and globs, one LogWatcher per file.
+ * Files matching a glob are picked up when they appear, e.g. when another
+ * app of a monorepo starts its dev server. Entries are tagged with their
+ * source: the spec's label, else the name of the file's directory. A
+ * single unlabelled file is read without a source, as before sources
+ * could be configured.
+ */
+export class LogSources {
+  private specs: LogSourceSpec[];
+  private store: LogStore;
+  /** By file path */
+  private watchers = new Map<string, LogSourceFile>();
+  private globWatchers: FSWatcher[] = [];
+  /** Watchers of files found while starting, awaited by start() */
+  private starting: Promise<void>[] | null = null;
+  private watching = false;
+
+  constructor(specs: LogSourceSpec[], store: LogStore) {
+    this.specs = specs;
+    this.store = store;
+  }
+
+  /**
+   * Start watching every configured file, and the directories of the
+   * globs for matching files.
+   */
+  async start(): Promise<void> {
+    if (this.watching) return;
+    this.watching = true;
+    // Files found before a stop are read on from where they stopped
+    this.starting = [...this.watchers.values()].map(({ watcher }) => watcher.start());
+
+    for (const spec of this.specs) {
+      if (isGlob(spec.pattern)) {
+        await this.watchGlob(spec);
+      } else {
+        this.addFile(spec.pattern, spec);
+      }
+    }
+    await Promise.all(this.starting);
+    this.starting = null;
+  }
+
+  /**
+   * Stop watching, reading what was written to each file since the last
+   * change.
+   */
+  async stop(): Promise<void> {
+    this.watching = false;
+    await Promise.all(this.globWatchers.map(watcher => watcher.close()));
+    this.globWatchers = [];
+    await Promise.all([...this.watchers.values()].map(({ watcher }) => watcher.stop()));
+  }
+
+  private async watchGlob(spec: LogSourceSpec): Promise<void> {
+    const pattern = globToRegExp(spec.pattern);
+    const matches = (filePath: string) => pattern.test(filePath) && !ROTATED_FILE.test(filePath);
+    const base = globBase(spec.pattern);
+    const depth = spec.pattern.includes('**')
+      ? undefined
+      : path.relative(base, spec.pattern).split('/').length - 1;
+
+    const watcher = watch(base, {
+      persistent: true,
+      depth,
+      ignored: (filePath, stats) =>
+        IGNORED_DIRECTORIES.has(path.basename(filePath))
+        || (stats?.isFile() === true && !matches(filePath)),
+    });
+    watcher.on('add', filePath => {
+      if (matches(filePath)) this.addFile(filePath, spec);
+    });
+    watcher.on('unlink', filePath => this.removeFile(filePath));
+    this.globWatchers.push(watcher);
+
+    await new Promise<void>(resolve => watcher.once('ready', resolve));
+  }
+
+  private addFile(filePath: string, spec: LogSourceSpec): void {
+    if (!this.watching || this.watchers.has(filePath)) return;
+
+    const untagged = this.specs.length === 1 && !spec.label && !isGlob(spec.pattern);
+    const source = untagged ? undefined : spec.label ?? path.basename(path.dirname(filePath));
+    const watcher = new LogWatcher(filePath, this.store, source);
+    this.watchers.set(filePath, { ...(source && { source }), watcher });
+
+    const started = watcher.start().catch(err => {
+      console.error(`[LogSources] Failed to watch ${filePath}:`, err);
+    });
+    this.starting?.push(started);
+  }
+
+  /**
+   * Stop reading a file matched by a glob once it is deleted, after
+   * reading what was left of it. If it is created again, it gets a new
+   * watcher.
+   */
+  private removeFile(filePath: string): void {
+    const file = this.watchers.get(filePath);
+    if (!file || existsSync(filePath)) return;
+
+    this.watchers.delete(filePath);
+    file.watcher.stop().catch(err => {
+      console.error(`[LogSources] Failed to stop watching ${filePath}:`, err);
+    });
+  }
+
+  /**
+   * Check if the sources are being watched.
+   */
+  get isWatching(): boolean {
+    return this.watching;
+  }
+
+  /**
+   * The configured paths and globs, as `label=pattern` when labelled.
+   */
+  get patterns(): string[] {
+    return this.specs.map(spec => spec.label ? `${spec.label}=${spec.pattern}` : spec.pattern);
+  }
+
+  /**
+   * The files being read, in the order they were found.
+   */
+  get files(): LogSourceFile[] {
+    return [...this.watchers.values()];
+  }
+}
@@ -1,27 +1,442 @@
-import type { LogEntry, LogFilter, LogType } from './types.js';
+import { EventEmitter } from 'node:events';
+import { classifyError } from './error-classifier.js';
+import { fingerprintEntry } from './fingerprint.js';
+import type { LogArchive } from './log-archive.js';
+import { parseQuery, parseTime } from './query.js';
+import type {
+  BuildRecord,
+  BuildTimings,
+  BundleReport,
+  DeliveryReport,
+  DeviceRecord,
+  ErrorGroup,
+  ErrorGroupSort,
+  HotUpdate,
+  LogEntry,
+  LogFilter,
+  LogType,
+  SourceMapInfo,
+} from './types.js';
+
+/** Issuers used by RepackLogsPlugin; everything else is a runtime log */
+export const BUILD_ISSUERS = ['webpack', 'repack', 'watcher'];
+
+export function isBuildLog(log: LogEntry): boolean {
+  return BUILD_ISSUERS.includes(log.issuer ?? '');
+}
+
+/** Network entries are runtime logs recording an HTTP request */
+export function isNetworkLog(log: LogEntry): boolean {
+  return log.network !== undefined && !isBuildLog(log);
+}
+
+/**
+ * Change events emitted by the LogStore.
+ */
+export interface LogStoreEvents {
+  /** An entry was added to the buffer */
+  entry: [LogEntry];
+  /** A build started or finished */
+  build: [BuildRecord];
+  /** A running build reported progress */
+  progress: [BuildRecord];
+  /** An error or warning with a new fingerprint was seen */
+  errorGroup: [ErrorGroup];
+  /** A new device or a new session of a known device was seen */
+  device: [DeviceRecord];
+  /** The store was cleared */
+  clear: [];
+}
+
+const MAX_BUILDS = 50;
+const MAX_ERROR_GROUPS = 200;
+/** Recent occurrences kept per error group for drill-down */
+const MAX_GROUP_OCCURRENCES = 20;
+/** Builds that keep their bundle report; older builds drop theirs */
+const MAX_BUNDLE_REPORTS = 10;
+const MAX_DEVICES = 50;
+const MAX_SESSIONS_PER_DEVICE = 20;
+
+function entryKey(entry: LogEntry): string {
+  return `${entry.source ?? ''}|${entry.timestamp}|${entry.type}|${entry.message}`;
+}
+
+function baselineKey(platform?: string, source?: string): string {
+  return `${source?.toLowerCase() ?? ''}|${platform?.toLowerCase() ?? ''}`;
+}
+
+/**
+ * Build a predicate for the per-entry conditions of a LogFilter
+ * (everything except `limit` and `order`).
+ * Throws QueryError if the query or a time is invalid.
+ */
+export function createLogMatcher(filter: LogFilter = {}): (log: LogEntry) => boolean {
+  const matchesQuery = filter.query ? parseQuery(filter.query) : undefined;
+  const since = filter.since ? parseTime(filter.since) : undefined;
+  const until = filter.until ? parseTime(filter.until) : undefined;
+  const platformLower = filter.platform?.toLowerCase();
+  const sourceLower = filter.source?.toLowerCase();
+  const issuerLower = filter.issuer?.toLowerCase();
+  const searchLower = filter.search?.toLowerCase();
+  const deviceLower = filter.device?.toLowerCase();
+
+  return (log) => {
+    if (matchesQuery && !matchesQuery(log)) return false;
+    if (filter.types && filter.types.length > 0 && !filter.types.includes(log.type)) return false;
+    if (filter.buildId && log.buildId !== filter.buildId) return false;
+    if (filter.before !== undefined && (log.id === undefined || log.id >= filter.before)) return false;
+    if (deviceLower && log.deviceId?.toLowerCase() !== deviceLower
+      && !log.deviceName?.toLowerCase().includes(deviceLower)) return false;
+    if (filter.session && log.sessionId !== filter.session) return false;
+    if (filter.category && log.classification?.category !== filter.category) return false;
+    if (platformLower && log.platform?.toLowerCase() !== platformLower) return false;
+    if (sourceLower && log.source?.toLowerCase() !== sourceLower) return false;
+    if (since !== undefined && Date.parse(log.timestamp) < since) return false;
+    if (until !== undefined && Date.parse(log.timestamp) > until) return false;
+    if (issuerLower && !log.issuer?.toLowerCase().includes(issuerLower)) return false;
+    if (searchLower) {
+      return log.message.toLowerCase().includes(searchLower) ||
+        Boolean(log.file?.toLowerCase().includes(searchLower)) ||
+        Boolean(log.request?.toLowerCase().includes(searchLower));
+    }
+    return true;
+  };
+}
+
+/**
+ * Apply a LogFilter to a list of entries.
+ * Throws QueryError if the query or a time is invalid.
+ */
+function filterLogs(logs: LogEntry[], filter?: LogFilter): LogEntry[] {
+  const result = logs.filter(createLogMatcher(filter));
+
+  if (filter?.limit && filter.limit > 0) {
+    // Return most recent logs
+    result.splice(0, result.length - filter.limit);
+  }
+
+  if (filter?.order === 'newest') {
+    result.reverse();
+  }
+
+  return result;
+}
 
 /**
  * In-memory circular buffer for storing log entries.
+ * Also keeps a record of each compilation seen in the build logs,
+ * and groups repeated errors so they cannot flood the buffer.
+ * With a LogArchive attached, stored entries are also written to disk.
+ * Emits change events (see LogStoreEvents) as entries are ingested.
  */
-export class LogStore {
+export class LogStore extends EventEmitter<LogStoreEvents> {
   private logs: LogEntry[] = [];
   private maxSize: number;
+  private maxDuplicates: number;
+  private builds = new Map<string, BuildRecord>();
+  private errorGroups = new Map<string, ErrorGroup>();
+  private devices = new Map<string, DeviceRecord>();
+  /** Builds holding a bundle report, oldest first */
+  private bundleBuilds: string[] = [];
+  /** Saved bundle baselines by lowercased source and platform */
+  private bundleBaselines = new Map<string, { buildId: string; bundle: BundleReport }>();
+  private groupOccurrences = new Map<string, LogEntry[]>();
+  /** Number of each group's occurrences currently in the buffer */
+  private bufferedByGroup = new Map<string, number>();
+  private archive: LogArchive | undefined;
+  /** Entries restored from the archive, to skip when they are read again */
+  private restoredKeys = new Set<string>();
+  /** Next entry ID; not reset by clear() so IDs stay unique */
+  private nextId = 1;
 
-  constructor(maxSize: number = 1000) {
+  constructor(maxSize: number = 1000, maxDuplicates: number = 10, archive?: LogArchive) {
+    super();
     this.maxSize = maxSize;
+    this.maxDuplicates = maxDuplicates;
+    this.archive = archive;
+  }
+
+  /**
+   * Reload the most recent history from the archive.
+   * Call before the watcher starts, so re-read entries are skipped.
+   */
+  async restore(): Promise<number> {
+    if (!this.archive) return 0;
+
+    const entries = await this.archive.readRecent(this.maxSize);
+    for (const entry of entries) {
+      this.restoredKeys.add(entryKey(entry));
+      this.insert(entry, false);
+    }
+    return entries.length;
   }
 
   /**
    * Add a log entry to the store.
-   * Removes oldest entries if buffer is full.
+   * Removes oldest entries if buffer is full. An error or warning that
+   * already has `maxDuplicates` copies in the buffer replaces the oldest
+   * of them, so repeats cannot push other entries out.
    */
   add(entry: LogEntry): void {
+    if (this.restoredKeys.size > 0 && this.restoredKeys.delete(entryKey(entry))) {
+      return;
+    }
+    this.insert(entry, true);
+  }
+
+  private insert(entry: LogEntry, persist: boolean): void {
+    // Restored entries keep their ID; continue numbering after them
+    if (entry.id === undefined) {
+      entry.id = this.nextId++;
+    } else {
+      this.nextId = Math.max(this.nextId, entry.id + 1);
+    }
+
+    if (entry.buildId) {
+      this.trackBuild(entry as LogEntry & { buildId: string });
+    }
+
+    if (entry.deviceId) {
+      this.trackDevice(entry as LogEntry & { deviceId: string });
+    }
+
+    if ((entry.type === 'error' || entry.type === 'warn') && !entry.buildEvent) {
+      if (isBuildLog(entry)) {
+        const classification = classifyError(entry);
+        if (classification) entry.classification = classification;
+      }
+      const fingerprint = this.trackErrorGroup(entry);
+      const buffered = this.bufferedByGroup.get(fingerprint) ?? 0;
+      const oldest = buffered >= this.maxDuplicates ? this.logs.findIndex(log => log.fingerprint === fingerprint) : -1;
+      if (oldest >= 0) {
+        this.logs.splice(oldest, 1);
+      } else {
+        this.bufferedByGroup.set(fingerprint, buffered + 1);
+      }
+    }
+
     this.logs.push(entry);
+    if (persist) this.archive?.append(entry);
+    this.emit('entry', entry);
 
     // Trim if over max size
     if (this.logs.length > this.maxSize) {
+      const removed = this.logs.slice(0, this.logs.length - this.maxSize);
       this.logs = this.logs.slice(-this.maxSize);
+
+      for (const log of removed) {
+        if (!log.fingerprint) continue;
+        const buffered = this.bufferedByGroup.get(log.fingerprint) ?? 0;
+        if (buffered <= 1) {
+          this.bufferedByGroup.delete(log.fingerprint);
+        } else {
+          this.bufferedByGroup.set(log.fingerprint, buffered - 1);
+        }
+      }
+    }
+  }
+
+  /**
+   * Fingerprint an error or warning and update its group.
+   * Returns the fingerprint, which is also stored on the entry.
+   */
+  private trackErrorGroup(entry: LogEntry): string {
+    const { fingerprint, normalizedMessage, topFrame } = fingerprintEntry(entry);
+    entry.fingerprint = fingerprint;
+
+    let group = this.errorGroups.get(fingerprint);
+    const isNew = !group;
+    if (group) {
+      // Re-insert so the Map stays ordered by recency
+      this.errorGroups.delete(fingerprint);
+    } else {
+      group = {
+        fingerprint,
+        type: entry.type,
+        normalizedMessage,
+        lastMessage: entry.message,
+        file: entry.file,
+        topFrame,
+        count: 0,
+        firstSeen: entry.timestamp,
+        lastSeen: entry.timestamp,
+        tags: [],
+        builds: [],
+        platforms: [],
+        sources: [],
+      };
     }
+    this.errorGroups.set(fingerprint, group);
+
+    group.count++;
+    group.lastSeen = entry.timestamp;
+    group.lastMessage = entry.message;
+    if (entry.issuer && !group.tags.includes(entry.issuer)) group.tags.push(entry.issuer);
+    if (entry.buildId && !group.builds.includes(entry.buildId)) group.builds.push(entry.buildId);
+    if (entry.platform && !group.platforms.includes(entry.platform)) group.platforms.push(entry.platform);
+    if (entry.source && !group.sources.includes(entry.source)) group.sources.push(entry.source);
+
+    const occurrences = this.groupOccurrences.get(fingerprint) ?? [];
+    occurrences.push(entry);
+    if (occurrences.length > MAX_GROUP_OCCURRENCES) occurrences.shift();
+    this.groupOccurrences.set(fingerprint, occurrences);
+
+    // Drop the least recently seen groups
+    while (this.errorGroups.size > MAX_ERROR_GROUPS) {
+      const oldest = this.errorGroups.keys().next().value as string;
+      this.errorGroups.delete(oldest);
+      this.groupOccurrences.delete(oldest);
+      this.bufferedByGroup.delete(oldest);
+    }
+
+    if (isNew) this.emit('errorGroup', group);
+
+    return fingerprint;
+  }
+
+  /**
+   * Update the build record an entry belongs to.
+   */
+  private trackBuild(entry: LogEntry & { buildId: string }): void {
+    let build = this.builds.get(entry.buildId);
+    if (!build) {
+      build = {
+        id: entry.buildId,
+        platform: entry.platform,
+        source: entry.source,
+        status: 'building',
+        startedAt: entry.timestamp,
+        errorCount: 0,
+        warningCount: 0,
+        changedFiles: [],
+      };
+      this.builds.set(entry.buildId, build);
+
+      // Drop the oldest builds (Map keeps insertion order)
+      while (this.builds.size > MAX_BUILDS) {
+        const oldest = this.builds.keys().next().value as string;
+        this.builds.delete(oldest);
+      }
+      this.emit('build', build);
+    }
+
+    if (entry.hash) build.hash = entry.hash;
+    if (entry.platform) build.platform ??= entry.platform;
+    if (entry.source) build.source ??= entry.source;
+
+    if (entry.issuer === 'watcher' && entry.file && !build.changedFiles.includes(entry.file)) {
+      build.changedFiles.push(entry.file);
+    }
+
+    if (entry.buildEvent === 'start') {
+      build.startedAt = entry.timestamp;
+      if (Array.isArray(entry.changedFiles)) {
+        for (const file of entry.changedFiles as string[]) {
+          if (!build.changedFiles.includes(file)) build.changedFiles.push(file);
+        }
+      }
+      return;
+    }
+
+    if (entry.progress && typeof entry.progress === 'object') {
+      if (build.status !== 'building') return;
+      build.progress = entry.progress;
+      build.progressAt = entry.timestamp;
+      this.emit('progress', build);
+      return;
+    }
+
+    if (entry.buildEvent === 'done') {
+      delete build.progress;
+      delete build.progressAt;
+      build.finishedAt = entry.timestamp;
+      build.duration = entry.duration
+        ?? new Date(entry.timestamp).getTime() - new Date(build.startedAt).getTime();
+      if (typeof entry.errorCount === 'number') build.errorCount = entry.errorCount;
+      if (typeof entry.warningCount === 'number') build.warningCount = entry.warningCount;
+      if (Array.isArray(entry.sourceMaps)) build.sourceMaps = entry.sourceMaps as SourceMapInfo[];
+      if (entry.moduleTimings && typeof entry.moduleTimings === 'object') {
+        build.timings = entry.moduleTimings as BuildTimings;
+      }
+      if (entry.hotUpdate && typeof entry.hotUpdate === 'object') build.hotUpdate = entry.hotUpdate as HotUpdate;
+      if (entry.bundle && typeof entry.bundle === 'object') {
+        build.bundle = entry.bundle as BundleReport;
+        this.trackBundleReport(build.id);
+      }
+      build.status = build.errorCount > 0 || entry.type === 'error' ? 'failed' : 'success';
+      this.emit('build', build);
+      return;
+    }
+
+    if (entry.type === 'error') build.errorCount++;
+    if (entry.type === 'warn') build.warningCount++;
+  }
+
+  /**
+   * Keep bundle reports for the most recent builds only, as they are large.
+   */
+  private trackBundleReport(buildId: string): void {
+    this.bundleBuilds = this.bundleBuilds.filter(id => id !== buildId);
+    this.bundleBuilds.push(buildId);
+    while (this.bundleBuilds.length > MAX_BUNDLE_REPORTS) {
+      const oldest = this.builds.get(this.bundleBuilds.shift()!);
+      if (oldest) delete oldest.bundle;
+    }
+  }
+
+  /**
+   * Update the registry entry of the device that sent a runtime log.
+   */
+  private trackDevice(entry: LogEntry & { deviceId: string }): void {
+    let device = this.devices.get(entry.deviceId);
+    let isNew = !device;
+    if (device) {
+      // Re-insert so the Map stays ordered by last activity
+      this.devices.delete(entry.deviceId);
+    } else {
+      device = {
+        deviceId: entry.deviceId,
+        firstSeen: entry.timestamp,
+        lastSeen: entry.timestamp,
+        logCount: 0,
+        sessions: [],
+        delivery: { batches: 0, retriedBatches: 0, droppedCount: 0, droppedByType: {} },
+      };
+    }
+    this.devices.set(entry.deviceId, device);
+
+    device.lastSeen = entry.timestamp;
+    device.logCount++;
+    if (entry.deviceName) device.deviceName = entry.deviceName;
+    if (entry.platform) device.platform = entry.platform;
+    if (entry.osVersion) device.osVersion = entry.osVersion;
+    if (entry.appVersion) device.appVersion = entry.appVersion;
+
+    if (entry.sessionId) {
+      let session = device.sessions.find(candidate => candidate.sessionId === entry.sessionId);
+      if (!session) {
+        session = {
+          sessionId: entry.sessionId,
+          appVersion: entry.appVersion,
+          startedAt: entry.timestamp,
+          lastSeen: entry.timestamp,
+          logCount: 0,
+        };
+        device.sessions.push(session);
+        if (device.sessions.length > MAX_SESSIONS_PER_DEVICE) device.sessions.shift();
+        isNew = true;
+      }
+      session.lastSeen = entry.timestamp;
+      session.logCount++;
+    }
+
+    // Drop the devices that have been quiet the longest
+    while (this.devices.size > MAX_DEVICES) {
+      const oldest = this.devices.keys().next().value as string;
+      this.devices.delete(oldest);
+    }
+
+    if (isNew) this.emit('device', device);
   }
 
   /**
@@ -37,49 +452,200 @@ export class LogStore {
    * Get logs with optional filtering.
    */
   get(filter?: LogFilter): LogEntry[] {
-    let result = [...this.logs];
+    return filterLogs(this.logs, filter);
+  }
 
-    if (filter?.types && filter.types.length > 0) {
-      result = result.filter(log => filter.types!.includes(log.type));
+  /**
+   * Get logs with optional filtering, reading the on-disk history too
+   * when the time range reaches back before the in-memory buffer.
+   */
+  async query(filter?: LogFilter): Promise<LogEntry[]> {
+    const oldest = this.logs[0]?.timestamp;
+    const since = filter?.since ? parseTime(filter.since) : undefined;
+    const until = filter?.until ? parseTime(filter.until) : undefined;
+    const reachesBack = since !== undefined
+      ? !oldest || since < Date.parse(oldest)
+      : until !== undefined && (!oldest || until < Date.parse(oldest));
+
+    if (!this.archive || !reachesBack) {
+      return this.get(filter);
     }
 
-    if (filter?.since) {
-      const sinceDate = new Date(filter.since);
-      result = result.filter(log => new Date(log.timestamp) >= sinceDate);
+    // Everything in memory has been archived, so only read up to the buffer
+    const archived = await this.archive.read({
+      since: since !== undefined ? new Date(since) : undefined,
+      until: oldest ? new Date(oldest) : until !== undefined ? new Date(until) : undefined,
+    });
+    const older = oldest ? archived.filter(log => log.timestamp < oldest) : archived;
+
+    return filterLogs([...older, ...this.logs], filter);
+  }
+
+  /**
+   * Get entries by ID, including error occurrences that were only
+   * counted and never buffered. Unknown IDs are skipped.
+   */
+  getByIds(ids: number[]): LogEntry[] {
+    const wanted = new Set(ids);
+    const found = new Map<number, LogEntry>();
+    const collect = (log: LogEntry) => {
+      if (log.id !== undefined && wanted.has(log.id)) found.set(log.id, log);
+    };
+
+    this.logs.forEach(collect);
+    for (const occurrences of this.groupOccurrences.values()) occurrences.forEach(collect);
+
+    return ids.flatMap(id => found.get(id) ?? []);
+  }
+
+  /**
+   * Get only errors and warnings.
+   */
+  getErrors(limit?: number, platform?: string, source?: string): LogEntry[] {
+    return this.get({
+      types: ['error', 'warn'],
+      limit,
+      platform,
+      source,
+    });
+  }
+
+  /**
+   * Get build records, most recent first.
+   */
+  getBuilds(limit?: number, platform?: string, source?: string): BuildRecord[] {
+    let builds = [...this.builds.values()].reverse();
+    if (platform) {
+      const platformLower = platform.toLowerCase();
+      builds = builds.filter(build => build.platform?.toLowerCase() === platformLower);
     }
+    if (source) {
+      const sourceLower = source.toLowerCase();
+      builds = builds.filter(build => build.source?.toLowerCase() === sourceLower);
+    }
+    return limit && limit > 0 ? builds.slice(0, limit) : builds;
+  }
 
-    if (filter?.issuer) {
-      const issuerLower = filter.issuer.toLowerCase();
-      result = result.filter(log =>
-        log.issuer?.toLowerCase().includes(issuerLower)
+  /**
+   * Get a single build record by ID.
+   */
+  getBuild(id: string): BuildRecord | undefined {
+    return this.builds.get(id);
+  }
+
+  /**
+   * Get error groups, ranked by occurrence count or by last occurrence.
+   */
+  getErrorGroups(options: {
+    sort?: ErrorGroupSort;
+    types?: LogType[];
+    platform?: string;
+    source?: string;
+    limit?: number;
+  } = {}): ErrorGroup[] {
+    let groups = [...this.errorGroups.values()];
+
+    if (options.types && options.types.length > 0) {
+      groups = groups.filter(group => options.types!.includes(group.type));
+    }
+
+    if (options.platform) {
+      const platformLower = options.platform.toLowerCase();
+      groups = groups.filter(group =>
+        group.platforms.some(platform => platform.toLowerCase() === platformLower)
       );
     }
 
-    if (filter?.search) {
-      const searchLower = filter.search.toLowerCase();
-      result = result.filter(log =>
-        log.message.toLowerCase().includes(searchLower) ||
-        log.file?.toLowerCase().includes(searchLower) ||
-        log.request?.toLowerCase().includes(searchLower)
+    if (options.source) {
+      const sourceLower = options.source.toLowerCase();
+      groups = groups.filter(group =>
+        group.sources.some(source => source.toLowerCase() === sourceLower)
       );
     }
 
-    if (filter?.limit && filter.limit > 0) {
-      // Return most recent logs
-      result = result.slice(-filter.limit);
+    if (options.sort === 'recency') {
+      groups.reverse();
+    } else {
+      groups.sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen));
     }
 
-    return result;
+    return options.limit && options.limit > 0 ? groups.slice(0, options.limit) : groups;
   }
 
   /**
-   * Get only errors and warnings.
+   * Get a single error group by fingerprint.
    */
-  getErrors(limit?: number): LogEntry[] {
-    return this.get({
-      types: ['error', 'warn'],
-      limit,
-    });
+  getErrorGroup(fingerprint: string): ErrorGroup | undefined {
+    return this.errorGroups.get(fingerprint);
+  }
+
+  /**
+   * Get the most recent occurrences of an error group, oldest first.
+   */
+  getGroupOccurrences(fingerprint: string, limit?: number): LogEntry[] {
+    const occurrences = this.groupOccurrences.get(fingerprint) ?? [];
+    return limit && limit > 0 ? occurrences.slice(-limit) : [...occurrences];
+  }
+
+  /**
+   * Record the delivery report a device's client sent with a batch.
+   * Devices not in the registry (no logs yet, or since dropped) are ignored.
+   */
+  recordDelivery(deviceId: string, report: DeliveryReport): void {
+    const delivery = this.devices.get(deviceId)?.delivery;
+    if (!delivery) return;
+
+    const now = new Date().toISOString();
+    delivery.batches++;
+    delivery.lastBatchAt = now;
+
+    if (report.attempt && report.attempt > 1) {
+      delivery.retriedBatches++;
+      delivery.lastRetryAt = now;
+    }
+
+    if (report.dropped && report.dropped.count > 0) {
+      delivery.droppedCount += report.dropped.count;
+      delivery.lastDropAt = now;
+      for (const [type, count] of Object.entries(report.dropped.types ?? {})) {
+        const logType = type as LogType;
+        delivery.droppedByType[logType] = (delivery.droppedByType[logType] ?? 0) + count;
+      }
+    }
+  }
+
+  /**
+   * Get the devices that have sent runtime logs, most recently seen first.
+   */
+  getDevices(platform?: string): DeviceRecord[] {
+    let devices = [...this.devices.values()].reverse();
+    if (platform) {
+      const platformLower = platform.toLowerCase();
+      devices = devices.filter(device => device.platform?.toLowerCase() === platformLower);
+    }
+    return devices;
+  }
+
+  /**
+   * Save a build's bundle report as the baseline to compare later builds
+   * of its source and platform against. Kept in memory until the server
+   * restarts.
+   */
+  saveBundleBaseline(build: BuildRecord & { bundle: BundleReport }): void {
+    this.bundleBaselines.set(baselineKey(build.platform, build.source), { buildId: build.id, bundle: build.bundle });
+  }
+
+  getBundleBaseline(platform?: string, source?: string): { buildId: string; bundle: BundleReport } | undefined {
+    return this.bundleBaselines.get(baselineKey(platform, source));
+  }
+
+  /**
+   * Get the source maps of the most recent build that emitted any.
+   */
+  getSourceMaps(platform?: string): SourceMapInfo[] {
+    return this.getBuilds(undefined, platform)
+      .find(build => build.sourceMaps && build.sourceMaps.length > 0)
+      ?.sourceMaps ?? [];
   }
 
   /**
@@ -89,6 +655,28 @@ export class LogStore {
     return this.logs.filter(log => log.type === type).length;
   }
 
+  /**
+   * Get the distinct platforms seen in the stored logs.
+   */
+  get platforms(): string[] {
+    const platforms = new Set<string>();
+    for (const log of this.logs) {
+      if (log.platform) platforms.add(log.platform);
+    }
+    return [...platforms].sort();
+  }
+
+  /**
+   * Get the distinct log sources seen in the stored logs.
+   */
+  get sources(): string[] {
+    const sources = new Set<string>();
+    for (const log of this.logs) {
+      if (log.source) sources.add(log.source);
+    }
+    return [...sources].sort();
+  }
+
   /**
    * Get total log count.
    */
@@ -109,5 +697,14 @@ export class LogStore {
    */
   clear(): void {
     this.logs = [];
+    this.builds.clear();
+    // Saved bundle baselines are kept
+    this.bundleBuilds = [];
+    this.errorGroups.clear();
+    this.groupOccurrences.clear();
+    this.devices.clear();
+    this.bufferedByGroup.clear();
+    this.restoredKeys.clear();
+    this.emit('clear');
   }
 }
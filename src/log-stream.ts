@@ -0,0 +1,137 @@
+import type { ServerResponse } from 'node:http';
+import { isBuildLog, type LogStore } from './log-store.js';
+import type { LogEntry } from './types.js';
+
+export interface LogStreamOptions {
+  store: LogStore;
+  /** Per-entry filter, see createLogMatcher() */
+  matches: (log: LogEntry) => boolean;
+  /** Entries to send before live ones (reconnect replay or initial backlog) */
+  replay?: LogEntry[];
+  /** Events queued while the client is not reading before the oldest are dropped */
+  maxBacklog?: number;
+}
+
+const DEFAULT_MAX_BACKLOG = 1000;
+/** Comment line sent periodically so proxies keep the connection open */
+const HEARTBEAT_MS = 15000;
+
+/**
+ * One Server-Sent Events subscriber of GET /stream.
+ *
+ * Each entry is sent as a `build` or `runtime` event whose ID is the
+ * entry ID, so a reconnecting client's Last-Event-ID resumes the stream.
+ * When the socket is not draining, events queue up to `maxBacklog`; older
+ * ones are then dropped and reported in a `dropped` event once the client
+ * catches up, so a slow consumer never holds up ingestion. A filter that
+ * fails on an entry ends the stream with a `failed` event.
+ */
+export class LogStreamSubscriber {
+  private res: ServerResponse;
+  private store: LogStore;
+  private matches: (log: LogEntry) => boolean;
+  private maxBacklog: number;
+  private backlog: string[] = [];
+  private waiting = false;
+  private dropped = 0;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+  private onClose: () => void = () => {};
+
+  constructor(res: ServerResponse, options: LogStreamOptions) {
+    this.res = res;
+    this.store = options.store;
+    this.matches = options.matches;
+    this.maxBacklog = options.maxBacklog ?? DEFAULT_MAX_BACKLOG;
+    this.handleEntry = this.handleEntry.bind(this);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    for (const entry of options.replay ?? []) {
+      this.send(this.formatEntry(entry));
+    }
+
+    this.store.on('entry', this.handleEntry);
+    res.on('drain', () => this.flush());
+    res.on('close', () => this.close());
+
+    this.heartbeat = setInterval(() => this.send(': ping\n\n'), HEARTBEAT_MS);
+  }
+
+  /**
+   * Register a callback for when the subscriber goes away.
+   */
+  onClosed(callback: () => void): void {
+    this.onClose = callback;
+  }
+
+  /**
+   * Stop streaming and end the response.
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    this.store.off('entry', this.handleEntry);
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.backlog = [];
+    this.res.end();
+    this.onClose();
+  }
+
+  /**
+   * Send an entry the filter matches. Runs inside LogStore.add(), so a
+   * filter that throws ends this stream instead of failing the ingestion.
+   */
+  private handleEntry(entry: LogEntry): void {
+    let matched: boolean;
+    try {
+      matched = this.matches(entry);
+    } catch (err) {
+      this.send(`event: failed\ndata: ${JSON.stringify({ error: err instanceof Error ? err.message : String(err) })}\n\n`);
+      this.close();
+      return;
+    }
+    if (matched) this.send(this.formatEntry(entry));
+  }
+
+  private formatEntry(entry: LogEntry): string {
+    const event = isBuildLog(entry) ? 'build' : 'runtime';
+    const id = entry.id !== undefined ? `id: ${entry.id}\n` : '';
+    return `${id}event: ${event}\ndata: ${JSON.stringify(entry)}\n\n`;
+  }
+
+  private send(chunk: string): void {
+    if (this.closed) return;
+
+    if (this.waiting) {
+      this.backlog.push(chunk);
+      if (this.backlog.length > this.maxBacklog) {
+        this.backlog.shift();
+        this.dropped++;
+      }
+      return;
+    }
+
+    if (!this.res.write(chunk)) this.waiting = true;
+  }
+
+  private flush(): void {
+    this.waiting = false;
+
+    if (this.dropped > 0) {
+      const dropped = this.dropped;
+      this.dropped = 0;
+      this.send(`event: dropped\ndata: ${JSON.stringify({ count: dropped })}\n\n`);
+    }
+
+    while (this.backlog.length > 0 && !this.waiting) {
+      this.send(this.backlog.shift()!);
+    }
+  }
+}
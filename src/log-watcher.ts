@@ -1,22 +1,102 @@
 import { watch, type FSWatcher } from 'chokidar';
-import { readFile, stat } from 'fs/promises';
+import { open, stat, type FileHandle } from 'fs/promises';
 import { existsSync } from 'fs';
 import type { LogEntry } from './types.js';
 import { LogStore } from './log-store.js';
 
+/**
+ * Normalize various log level formats to our LogType.
+ */
+function normalizeType(type: string): LogEntry['type'] {
+  const normalized = type.toLowerCase();
+
+  if (normalized.includes('error') || normalized === 'err') {
+    return 'error';
+  }
+  if (normalized.includes('warn')) {
+    return 'warn';
+  }
+  if (normalized.includes('debug') || normalized === 'trace') {
+    return 'debug';
+  }
+  if (normalized.includes('success') || normalized === 'done') {
+    return 'success';
+  }
+  if (normalized.includes('progress')) {
+    return 'progress';
+  }
+  return 'info';
+}
+
+/**
+ * Turn a parsed build log record (from the log file or sent by the
+ * plugin over HTTP) into a LogEntry. Returns null without a message.
+ */
+export function toLogEntry(parsed: unknown): LogEntry | null {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  // Records can be posted by any HTTP client: the fields the LogStore assigns are
+  // dropped, and the normalized fields are set after the record's own. A record's
+  // own `source` names its issuer; the entry's is the log source it was read from
+  const { id, fingerprint, classification, source, ...fields } = parsed as Record<string, unknown>;
+  const message = fields.message ?? fields.msg;
+  if (!message) return null;
+
+  return {
+    ...fields,
+    timestamp: String(fields.timestamp ?? fields.time ?? new Date().toISOString()),
+    type: normalizeType(String(fields.type ?? fields.level ?? 'info')),
+    message: String(message),
+    issuer: (fields.issuer ?? source ?? fields.name) as string | undefined,
+    file: (fields.file ?? fields.filename) as string | undefined,
+  };
+}
+
+/** Bytes read from the file per read call */
+const READ_CHUNK_SIZE = 64 * 1024;
+/** Characters of an unparsable line kept for get_status */
+const MAX_FAILED_LINE_LENGTH = 200;
+
+/**
+ * A line of the log file that could not be turned into an entry.
+ */
+export interface ParseFailure {
+  error: string;
+  /** The start of the line */
+  line: string;
+  at: string;
+}
+
 /**
  * Watches a Re.Pack log file and streams entries to a LogStore.
+ * Reads only the bytes appended since the last read, through a file
+ * handle that stays open when the plugin renames the file to start a
+ * new one, so the tail of a rotated file is still read. A line without
+ * its newline yet is kept until the rest of it is written.
  */
 export class LogWatcher {
   private filePath: string;
   private store: LogStore;
+  /** Set as the `source` of every entry read */
+  private source: string | undefined;
   private watcher: FSWatcher | null = null;
-  private lastPosition: number = 0;
   private watching: boolean = false;
+  private handle: FileHandle | null = null;
+  /** Inode of the file being read, to notice when it is replaced */
+  private inode: number | null = null;
+  /** Byte offset of the next read */
+  private position = 0;
+  /** Bytes after the last newline read */
+  private partialLine: Buffer = Buffer.alloc(0);
+  /** Reads run one at a time, in the order the file changed */
+  private reading: Promise<void> = Promise.resolve();
+  private failureCount = 0;
+  private lastFailure: ParseFailure | undefined;
 
-  constructor(filePath: string, store: LogStore) {
+  constructor(filePath: string, store: LogStore, source?: string) {
     this.filePath = filePath;
     this.store = store;
+    this.source = source;
   }
 
   /**
@@ -26,10 +106,11 @@ export class LogWatcher {
     if (this.watching) return;
 
     // Read existing content first
-    await this.readNewContent();
+    await this.scheduleRead();
 
-    // Watch for changes
-    this.watcher = watch(this.filePath, {
+    // Watch for changes. Besides letting writes settle, awaitWriteFinish polls
+    // the path, which keeps changes coming after the file is renamed and recreated
+    const watcher = watch(this.filePath, {
       persistent: true,
       ignoreInitial: true,
       awaitWriteFinish: {
@@ -37,130 +118,156 @@ export class LogWatcher {
         pollInterval: 50,
       },
     });
+    this.watcher = watcher;
 
-    this.watcher.on('change', async () => {
-      await this.readNewContent();
-    });
-
-    this.watcher.on('add', async () => {
-      // File was created, reset position and read
-      this.lastPosition = 0;
-      await this.readNewContent();
-    });
-
-    this.watcher.on('unlink', () => {
-      // File was deleted, reset position
-      this.lastPosition = 0;
-    });
+    watcher.on('change', () => this.scheduleRead());
+    watcher.on('add', () => this.scheduleRead());
+    watcher.on('unlink', () => this.scheduleRead());
 
+    // Changes made before the watcher is ready are not reported, so read them now
+    await new Promise<void>(resolve => watcher.once('ready', resolve));
+    await this.scheduleRead();
     this.watching = true;
   }
 
   /**
-   * Stop watching the log file.
+   * Stop watching the log file. A last line without a newline is read
+   * as complete.
    */
   async stop(): Promise<void> {
     if (this.watcher) {
       await this.watcher.close();
       this.watcher = null;
     }
+    // Read what was written to the open file since the last change event. A file
+    // that replaced it is left for a restart, or for the watcher of the new file
+    this.reading = this.reading.then(() => this.readToEnd()).catch(() => {});
+    await this.reading;
+    this.flushPartialLine();
+    // Keep the inode and position, so a restart continues where this stopped
+    await this.closeHandle();
     this.watching = false;
   }
 
+  private scheduleRead(): Promise<void> {
+    this.reading = this.reading.then(() => this.readNewContent());
+    return this.reading;
+  }
+
   /**
-   * Read new content from the log file since last position.
+   * Read the bytes appended since the last read. When the file was
+   * renamed or deleted, the old file is read to its end first; when it
+   * was truncated, reading starts over.
    */
   private async readNewContent(): Promise<void> {
-    if (!existsSync(this.filePath)) {
-      return;
-    }
-
     try {
-      const stats = await stat(this.filePath);
+      const current = await stat(this.filePath).catch(() => null);
 
-      // If file was truncated, reset position
-      if (stats.size < this.lastPosition) {
-        this.lastPosition = 0;
+      if (this.handle && (!current || current.ino !== this.inode)) {
+        await this.readToEnd();
+        this.flushPartialLine();
+        await this.closeHandle();
+        this.inode = null;
+        this.position = 0;
       }
+      if (!current) return;
 
-      // Read only new content
-      const content = await readFile(this.filePath, 'utf-8');
-      const newContent = content.slice(this.lastPosition);
-
-      if (newContent.length === 0) return;
-
-      // Update position
-      this.lastPosition = content.length;
-
-      // Parse JSON lines
-      const lines = newContent.split('\n').filter(line => line.trim());
-
-      for (const line of lines) {
-        try {
-          const entry = this.parseLine(line);
-          if (entry) {
-            this.store.add(entry);
-          }
-        } catch {
-          // Skip malformed lines
+      if (!this.handle) {
+        this.handle = await open(this.filePath, 'r');
+        const { ino } = await this.handle.stat();
+        if (ino !== this.inode) {
+          this.position = 0;
+          this.partialLine = Buffer.alloc(0);
         }
+        this.inode = ino;
       }
+
+      const { size } = await this.handle.stat();
+      if (size < this.position) {
+        this.position = 0;
+        this.partialLine = Buffer.alloc(0);
+      }
+      await this.readToEnd();
     } catch {
       // File might not exist yet or be inaccessible
     }
   }
 
-  /**
-   * Parse a single log line into a LogEntry.
-   */
-  private parseLine(line: string): LogEntry | null {
-    try {
-      const parsed = JSON.parse(line);
-
-      // Ensure required fields exist
-      if (!parsed.message && !parsed.msg) {
-        return null;
-      }
+  private async readToEnd(): Promise<void> {
+    if (!this.handle) return;
 
-      return {
-        timestamp: parsed.timestamp ?? parsed.time ?? new Date().toISOString(),
-        type: this.normalizeType(parsed.type ?? parsed.level ?? 'info'),
-        message: parsed.message ?? parsed.msg ?? '',
-        issuer: parsed.issuer ?? parsed.source ?? parsed.name,
-        request: parsed.request,
-        file: parsed.file ?? parsed.filename,
-        loader: parsed.loader,
-        stack: parsed.stack,
-        duration: parsed.duration,
-        ...parsed,
-      };
-    } catch {
-      return null;
+    const buffer = Buffer.alloc(READ_CHUNK_SIZE);
+    for (;;) {
+      const { bytesRead } = await this.handle.read(buffer, 0, buffer.length, this.position);
+      if (bytesRead === 0) return;
+      this.position += bytesRead;
+      this.readLines(buffer.subarray(0, bytesRead));
     }
   }
 
   /**
-   * Normalize various log level formats to our LogType.
+   * Add the complete lines of a chunk and keep the rest. Lines are split
+   * on bytes, so multibyte characters across chunks stay intact.
    */
-  private normalizeType(type: string): LogEntry['type'] {
-    const normalized = type.toLowerCase();
-
-    if (normalized.includes('error') || normalized === 'err') {
-      return 'error';
-    }
-    if (normalized.includes('warn')) {
-      return 'warn';
+  private readLines(chunk: Buffer): void {
+    const data = this.partialLine.length > 0 ? Buffer.concat([this.partialLine, chunk]) : chunk;
+    let start = 0;
+    let end: number;
+    while ((end = data.indexOf(0x0a, start)) >= 0) {
+      this.addLine(data.toString('utf8', start, end));
+      start = end + 1;
     }
-    if (normalized.includes('debug') || normalized === 'trace') {
-      return 'debug';
-    }
-    if (normalized.includes('success') || normalized === 'done') {
-      return 'success';
+    // Copy: the chunk's buffer is reused by the next read
+    this.partialLine = Buffer.from(data.subarray(start));
+  }
+
+  private flushPartialLine(): void {
+    if (this.partialLine.length === 0) return;
+    this.addLine(this.partialLine.toString('utf8'));
+    this.partialLine = Buffer.alloc(0);
+  }
+
+  private addLine(line: string): void {
+    const text = line.trim();
+    if (!text) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      this.recordFailure(text, err instanceof Error ? err.message : String(err));
+      return;
     }
-    if (normalized.includes('progress')) {
-      return 'progress';
+
+    const entry = toLogEntry(parsed);
+    if (entry) {
+      this.store.add(this.source ? { ...entry, source: this.source } : entry);
+    } else {
+      this.recordFailure(text, 'Not a log entry: no "message" field');
     }
-    return 'info';
+  }
+
+  private recordFailure(line: string, error: string): void {
+    this.failureCount++;
+    this.lastFailure = {
+      error,
+      line: line.length > MAX_FAILED_LINE_LENGTH ? `${line.slice(0, MAX_FAILED_LINE_LENGTH)}…` : line,
+      at: new Date().toISOString(),
+    };
+  }
+
+  private async closeHandle(): Promise<void> {
+    const handle = this.handle;
+    this.handle = null;
+    await handle?.close().catch(() => {});
+  }
+
+  /**
+   * Lines that could not be parsed since the watcher was created, and
+   * the latest of them.
+   */
+  get parseFailures(): { count: number; last?: ParseFailure } {
+    return { count: this.failureCount, ...(this.lastFailure && { last: this.lastFailure }) };
   }
 
   /**
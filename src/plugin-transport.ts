@@ -0,0 +1,189 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LogEntry } from './types.js';
+
+/**
+ * Where RepackLogsPlugin sends its log entries.
+ */
+export interface LogTransport {
+  /** Called when a build starts, before its first entry is written */
+  startBuild(): void;
+  write(entry: LogEntry): void;
+}
+
+export interface FileTransportOptions {
+  /** Start a new file on each build */
+  clearOnStart: boolean;
+  /** Files of previous builds kept when starting a new one; 0 truncates instead */
+  keepFiles: number;
+}
+
+/** Delay before sending, so the entries of one burst go in one request */
+const SEND_DELAY_MS = 50;
+const REQUEST_TIMEOUT_MS = 2000;
+const RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 5000;
+/** How long entries wait for an unreachable server before going to the file */
+const FALLBACK_AFTER_MS = 10000;
+const MAX_QUEUED_ENTRIES = 1000;
+
+/**
+ * Path of a previous build's log file: `.repack-logs.json` becomes
+ * `.repack-logs.1.json` for the latest one, `.repack-logs.2.json` for
+ * the one before, and so on.
+ */
+export function rotatedPath(filePath: string, index: number): string {
+  const { dir, name, ext } = path.parse(filePath);
+  return path.join(dir, `${name}.${index}${ext}`);
+}
+
+/**
+ * Appends entries to a JSON lines file, rotating it on each build.
+ */
+export class FileTransport implements LogTransport {
+  private filePath: string;
+  private options: FileTransportOptions;
+
+  constructor(filePath: string, options: FileTransportOptions) {
+    this.filePath = filePath;
+    this.options = options;
+  }
+
+  startBuild(): void {
+    if (!this.options.clearOnStart) return;
+
+    try {
+      if (!fs.existsSync(this.filePath) || fs.statSync(this.filePath).size === 0) return;
+      if (this.options.keepFiles <= 0) {
+        fs.writeFileSync(this.filePath, '');
+        return;
+      }
+
+      // Renaming replaces the oldest kept file
+      for (let index = this.options.keepFiles; index > 1; index--) {
+        const older = rotatedPath(this.filePath, index - 1);
+        if (fs.existsSync(older)) fs.renameSync(older, rotatedPath(this.filePath, index));
+      }
+      fs.renameSync(this.filePath, rotatedPath(this.filePath, 1));
+    } catch (err) {
+      console.error('[RepackLogsPlugin] Failed to rotate log file:', err);
+    }
+  }
+
+  write(entry: LogEntry): void {
+    this.writeMany([entry]);
+  }
+
+  writeMany(entries: LogEntry[]): void {
+    try {
+      fs.appendFileSync(this.filePath, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+    } catch (err) {
+      console.error('[RepackLogsPlugin] Failed to write log:', err);
+    }
+  }
+}
+
+/**
+ * Sends entries to the MCP server's runtime server (POST /build-logs)
+ * in small batches, with the log source they belong to. While the server is unreachable, entries are queued
+ * and retried with backoff; once they have waited too long or the queue
+ * is full, they are written to the log file instead, and so is everything
+ * else until the next build starts. Entries still queued when the process
+ * exits are written to the file too.
+ */
+export class HttpTransport implements LogTransport {
+  private url: string;
+  private fallback: FileTransport;
+  private source: string | undefined;
+  private queue: LogEntry[] = [];
+  private sending = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failedAttempts = 0;
+  /** When sending started failing; null while the server answers */
+  private failingSince: number | null = null;
+  /** Writing to the file until the next build starts */
+  private usingFallback = false;
+
+  constructor(serverUrl: string, fallback: FileTransport, source?: string) {
+    this.url = `${serverUrl.replace(/\/$/, '')}/build-logs`;
+    this.fallback = fallback;
+    this.source = source;
+    process.on('exit', () => this.fallBack());
+  }
+
+  startBuild(): void {
+    this.fallback.startBuild();
+    // Try the server again; if it is still down, the first failure falls back right away
+    this.usingFallback = false;
+  }
+
+  write(entry: LogEntry): void {
+    if (this.usingFallback) {
+      this.fallback.write(entry);
+      return;
+    }
+
+    this.queue.push(entry);
+    if (this.queue.length > MAX_QUEUED_ENTRIES) {
+      this.fallBack();
+      return;
+    }
+    // Keeps a pending retry's backoff while the server is down
+    this.schedule(SEND_DELAY_MS);
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delay);
+    // Retries must not keep a finished build process alive; the exit handler saves their entries
+    if (this.failingSince !== null) this.timer.unref();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.sending || this.usingFallback || this.queue.length === 0) return;
+    this.sending = true;
+
+    const batch = this.queue;
+    this.queue = [];
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...(this.source && { source: this.source }), entries: batch }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      this.failedAttempts = 0;
+      this.failingSince = null;
+    } catch {
+      this.queue = [...batch, ...this.queue];
+      this.failedAttempts++;
+      this.failingSince ??= Date.now();
+    } finally {
+      this.sending = false;
+    }
+
+    if (this.usingFallback || (this.failingSince !== null && Date.now() - this.failingSince >= FALLBACK_AFTER_MS)) {
+      this.fallBack();
+    } else if (this.failingSince !== null) {
+      this.schedule(Math.min(RETRY_DELAY_MS * 2 ** (this.failedAttempts - 1), MAX_RETRY_DELAY_MS));
+    } else if (this.queue.length > 0) {
+      this.schedule(SEND_DELAY_MS);
+    }
+  }
+
+  /**
+   * Write the queued entries to the file and keep using it until the
+   * next build starts.
+   */
+  private fallBack(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.usingFallback = true;
+    if (this.queue.length > 0) this.fallback.writeMany(this.queue);
+    this.queue = [];
+  }
+}
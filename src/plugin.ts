@@ -1,7 +1,19 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import type { Compiler, Stats } from '@rspack/core';
-import type { LogEntry, LogType } from './types.js';
+import type { Compilation, Compiler, Module, Stats, StatsCompilation, StatsError } from '@rspack/core';
+import { FileTransport, HttpTransport, type LogTransport } from './plugin-transport.js';
+import type {
+  BuildPhase,
+  BuildProgress,
+  BuildTimings,
+  BundleReport,
+  HotUpdate,
+  LoaderTiming,
+  LogEntry,
+  ModuleTiming,
+  SourceLocation,
+  SourceMapInfo,
+} from './types.js';
 
 export interface RepackLogsPluginOptions {
   /**
@@ -9,9 +21,149 @@ export interface RepackLogsPluginOptions {
    */
   outputPath?: string;
   /**
-   * Whether to clear the log file on each build start. Defaults to true.
+   * Whether to start a new log file on each build start. The previous
+   * file is kept as `.repack-logs.1.json` (see `keepFiles`). Defaults to true.
    */
   clearOnStart?: boolean;
+  /**
+   * Log files of previous builds kept when `clearOnStart` starts a new
+   * one; 0 truncates the file instead. Defaults to 3.
+   */
+  keepFiles?: number;
+  /**
+   * How entries reach the MCP server: appended to the log file ('file'),
+   * or sent to its runtime server over HTTP ('http'), which is faster and
+   * does not depend on file watching. The 'http' transport queues entries
+   * while the server is unreachable and falls back to the log file when
+   * it stays down. Defaults to 'file'.
+   */
+  transport?: 'file' | 'http';
+  /**
+   * Runtime server the 'http' transport sends to.
+   * Defaults to http://localhost:$REPACK_RUNTIME_PORT (9090).
+   */
+  serverUrl?: string;
+  /**
+   * Log source the 'http' transport labels its entries with, to tell apps
+   * apart when several send to one server (e.g. in a monorepo). Entries
+   * read from the log file are labelled by the server instead.
+   */
+  source?: string;
+  /**
+   * Target platform recorded on every entry. Detected from the compiler's
+   * `name` or `resolve` config when omitted.
+   */
+  platform?: string;
+  /**
+   * Record how long each module and loader takes to build, for the
+   * get_slow_modules tool. Defaults to false.
+   */
+  moduleTimings?: boolean;
+  /**
+   * Record asset, chunk and module sizes of each compilation, for the
+   * get_bundle_report tool. Collecting module sizes slows down rebuilds
+   * of large apps, so it defaults to false.
+   */
+  bundleReport?: boolean;
+  /**
+   * Log the percentage, phase and module counts of running compilations,
+   * at most once per second. Defaults to true.
+   */
+  progress?: boolean;
+}
+
+const KNOWN_PLATFORMS = ['ios', 'android', 'visionos', 'macos', 'windows'];
+const DEFAULT_KEEP_FILES = 3;
+const DEFAULT_RUNTIME_PORT = 9090;
+/** Slowest modules written per build, to keep log lines reasonably small */
+const MAX_REPORTED_MODULES = 100;
+/** Largest modules listed in a bundle report */
+const MAX_BUNDLE_MODULES = 500;
+const PROGRESS_INTERVAL_MS = 1000;
+/** Share of a build spent building modules; sealing and emitting take the rest */
+const BUILDING_SHARE = 70;
+const PHASE_PERCENTAGES: Record<BuildPhase, number> = { building: 0, sealing: BUILDING_SHARE, emitting: 95 };
+
+/**
+ * Detect the target platform of a Re.Pack compiler.
+ * Re.Pack usually names compilers after their platform and adds
+ * platform-specific extensions (e.g. `.ios.js`) to the resolve config.
+ */
+function detectPlatform(compiler: Compiler): string | undefined {
+  const name = compiler.options.name?.toLowerCase();
+  if (name) {
+    const fromName = KNOWN_PLATFORMS.find(platform => name.split(/[^a-z]+/).includes(platform));
+    if (fromName) return fromName;
+  }
+
+  const extensions = compiler.options.resolve?.extensions ?? [];
+  for (const platform of KNOWN_PLATFORMS) {
+    if (extensions.some(ext => ext.startsWith(`.${platform}.`))) {
+      return platform;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Short loader name: `builtin:swc-loader` as is, a package name for
+ * loaders resolved from node_modules, else the file name.
+ */
+function loaderName(loader: string): string {
+  const request = loader.split('?')[0];
+  if (request.startsWith('builtin:')) return request;
+
+  const parts = request.split(/[\\/]/);
+  const nodeModules = parts.lastIndexOf('node_modules');
+  if (nodeModules >= 0 && nodeModules + 1 < parts.length) {
+    const name = parts[nodeModules + 1];
+    return name.startsWith('@') && nodeModules + 2 < parts.length ? `${name}/${parts[nodeModules + 2]}` : name;
+  }
+  return path.basename(request);
+}
+
+/**
+ * Parse a diagnostic's `loc`: "12:5", "12:5-18" or "12:5-14:2". Rspack's
+ * columns are 1-based with an inclusive end, like the classifier's.
+ * Webpack's are 0-based with an exclusive end, so only its start column
+ * gets +1.
+ */
+function parseLoc(loc: string | undefined, zeroBased: boolean): SourceLocation | undefined {
+  const match = loc?.match(/^(\d+):(\d+)(?:-(?:(\d+):)?(\d+))?$/);
+  if (!match) return undefined;
+
+  const [, line, column, endLine, endColumn] = match;
+  return {
+    line: parseInt(line, 10),
+    column: parseInt(column, 10) + (zeroBased ? 1 : 0),
+    ...(endColumn && {
+      endLine: parseInt(endLine ?? line, 10),
+      endColumn: parseInt(endColumn, 10),
+    }),
+  };
+}
+
+/**
+ * Where a build error or warning points: the absolute path of its module's
+ * source file (without inline loaders or query) and its position in it.
+ */
+function diagnosticLocation(
+  diagnostic: StatsError,
+  context: string,
+  zeroBasedColumns: boolean,
+): Pick<LogEntry, 'filePath' | 'loc'> {
+  const resource = diagnostic.moduleIdentifier?.split('!').pop()?.split('?')[0];
+  const moduleName = diagnostic.moduleName?.replace(/ \+ \d+ modules?$/, '');
+  const filePath = resource && path.isAbsolute(resource)
+    ? resource
+    : moduleName && path.resolve(context, moduleName);
+  const loc = parseLoc(diagnostic.loc, zeroBasedColumns);
+
+  return {
+    ...(filePath && { filePath }),
+    ...(loc && { loc }),
+  };
 }
 
 /**
@@ -20,33 +172,75 @@ export interface RepackLogsPluginOptions {
  */
 export class RepackLogsPlugin {
   private outputPath: string;
-  private clearOnStart: boolean;
+  private transport: LogTransport;
+  private platform: string | undefined;
+  /** Prefix that keeps build IDs unique across dev server restarts */
+  private sessionId = Date.now().toString(36);
+  private buildCounter = 0;
+  /** Build currently being compiled, if any */
+  private currentBuildId: string | null = null;
+  /** Build that the next compilation will use, allocated by the `invalid` hook */
+  private pendingBuildId: string | null = null;
+  private pendingChanges: string[] = [];
+  private moduleTimings: boolean;
+  private bundleReport: boolean;
+  /** Build start times of the modules of the current compilation */
+  private moduleStarts = new Map<string, number>();
+  private builtModules: ModuleTiming[] = [];
+  private progress: boolean;
+  /** Progress of the current compilation, written by a timer while it runs */
+  private currentProgress: BuildProgress | null = null;
+  private lastProgress: BuildProgress | null = null;
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(options: RepackLogsPluginOptions = {}) {
     this.outputPath = options.outputPath ?? '.repack-logs.json';
-    this.clearOnStart = options.clearOnStart ?? true;
+    const file = new FileTransport(this.outputPath, {
+      clearOnStart: options.clearOnStart ?? true,
+      keepFiles: options.keepFiles ?? DEFAULT_KEEP_FILES,
+    });
+    this.transport = options.transport === 'http'
+      ? new HttpTransport(
+        options.serverUrl ?? `http://localhost:${process.env.REPACK_RUNTIME_PORT ?? DEFAULT_RUNTIME_PORT}`,
+        file,
+        options.source,
+      )
+      : file;
+    this.platform = options.platform;
+    this.moduleTimings = options.moduleTimings ?? false;
+    this.bundleReport = options.bundleReport ?? false;
+    this.progress = options.progress ?? true;
   }
 
   apply(compiler: Compiler): void {
     const pluginName = 'RepackLogsPlugin';
 
+    this.platform ??= detectPlatform(compiler);
+
     // Ensure output directory exists
     const outputDir = path.dirname(this.outputPath);
     if (outputDir && outputDir !== '.') {
       fs.mkdirSync(outputDir, { recursive: true });
     }
 
-    // Clear log file on build start
-    if (this.clearOnStart) {
-      compiler.hooks.beforeCompile.tap(pluginName, () => {
-        fs.writeFileSync(this.outputPath, '');
-        this.writeLog({
-          type: 'info',
-          message: 'Starting Re.Pack bundler...',
-          issuer: 'repack',
-        });
+    // Open a new build and start a new log file on build start
+    compiler.hooks.beforeCompile.tap(pluginName, () => {
+      if (this.currentBuildId) return;
+
+      this.currentBuildId = this.pendingBuildId ?? this.nextBuildId();
+      this.pendingBuildId = null;
+      const changedFiles = this.pendingChanges;
+      this.pendingChanges = [];
+
+      this.transport.startBuild();
+      this.writeLog({
+        type: 'info',
+        message: 'Starting Re.Pack bundler...',
+        issuer: 'repack',
+        buildEvent: 'start',
+        changedFiles,
       });
-    }
+    });
 
     // Log compilation progress
     compiler.hooks.compilation.tap(pluginName, (compilation) => {
@@ -57,13 +251,43 @@ export class RepackLogsPlugin {
       });
     });
 
+    // Track the progress of the main compilation (not child compilations)
+    if (this.progress) {
+      compiler.hooks.thisCompilation.tap(pluginName, (compilation) => {
+        this.trackProgress(compilation);
+      });
+      compiler.hooks.emit.tap(pluginName, () => {
+        this.setPhase('emitting');
+      });
+    }
+
+    // Time module builds (not those of child compilations)
+    if (this.moduleTimings) {
+      compiler.hooks.thisCompilation.tap(pluginName, (compilation) => {
+        this.trackModuleTimings(compilation, compiler.options.context ?? process.cwd());
+      });
+    }
+
     // Log warnings and errors
     compiler.hooks.done.tap(pluginName, (stats: Stats) => {
+      this.stopProgress();
+      const hotUpdateManifests = stats.compilation.getAssets()
+        .filter(asset => asset.name.endsWith('.hot-update.json'));
       const info = stats.toJson({
         errors: true,
         warnings: true,
         timings: true,
+        hash: true,
+        assets: true,
+        outputPath: true,
+        chunks: this.bundleReport,
+        modules: this.bundleReport || hotUpdateManifests.length > 0,
       });
+      const hash = info.hash;
+      const context = compiler.options.context ?? process.cwd();
+      // Webpack's compiler has no `rspack` property
+      const zeroBasedColumns = !compiler.rspack;
+      const sourceMaps = this.collectSourceMaps(compiler, info.assets ?? [], info.outputPath);
 
       // Log warnings
       if (info.warnings) {
@@ -72,7 +296,9 @@ export class RepackLogsPlugin {
             type: 'warn',
             message: typeof warning === 'string' ? warning : warning.message,
             file: typeof warning === 'object' ? warning.moduleName : undefined,
+            ...(typeof warning === 'object' && diagnosticLocation(warning, context, zeroBasedColumns)),
             issuer: 'webpack',
+            hash,
           });
         }
       }
@@ -84,8 +310,10 @@ export class RepackLogsPlugin {
             type: 'error',
             message: typeof error === 'string' ? error : error.message,
             file: typeof error === 'object' ? error.moduleName : undefined,
+            ...(typeof error === 'object' && diagnosticLocation(error, context, zeroBasedColumns)),
             stack: typeof error === 'object' ? error.stack : undefined,
             issuer: 'webpack',
+            hash,
           });
         }
       }
@@ -99,31 +327,261 @@ export class RepackLogsPlugin {
           : `Compilation finished in ${info.time}ms`,
         duration: info.time,
         issuer: 'repack',
+        hash,
+        buildEvent: 'done',
+        errorCount: info.errors?.length ?? 0,
+        warningCount: info.warnings?.length ?? 0,
+        ...(sourceMaps.length > 0 && { sourceMaps }),
+        ...(this.moduleTimings && { moduleTimings: this.summarizeTimings() }),
+        ...(this.bundleReport && { bundle: this.summarizeBundle(info) }),
+        ...(hotUpdateManifests.length > 0 && { hotUpdate: this.summarizeHotUpdate(hotUpdateManifests, info) }),
       });
+      this.currentBuildId = null;
     });
 
-    // Log watch mode rebuilds
+    // Close the build if the compiler itself failed before `done`
+    compiler.hooks.failed.tap(pluginName, (error) => {
+      this.stopProgress();
+      this.writeLog({
+        type: 'error',
+        message: `Compilation failed: ${error.message}`,
+        stack: error.stack,
+        issuer: 'repack',
+        buildEvent: 'done',
+        errorCount: 1,
+        warningCount: 0,
+      });
+      this.currentBuildId = null;
+    });
+
+    // Changed files belong to the build they trigger, so allocate its ID now
     compiler.hooks.invalid.tap(pluginName, (fileName) => {
+      this.pendingBuildId ??= this.nextBuildId();
+      if (fileName) this.pendingChanges.push(fileName);
       this.writeLog({
         type: 'info',
         message: `File changed: ${fileName || 'unknown'}`,
         file: fileName || undefined,
         issuer: 'watcher',
+        buildId: this.pendingBuildId,
+      });
+    });
+  }
+
+  /**
+   * Record where each emitted bundle's source map can be read from:
+   * the output directory on disk, and the dev server when it serves from memory.
+   */
+  private collectSourceMaps(
+    compiler: Compiler,
+    assets: Array<{ name: string }>,
+    outputPath: string | undefined
+  ): SourceMapInfo[] {
+    const devServer = compiler.options.devServer as { port?: number | string; host?: string } | undefined;
+    const devServerUrl = devServer?.port
+      ? `http://${devServer.host && devServer.host !== '0.0.0.0' ? devServer.host : 'localhost'}:${devServer.port}`
+      : undefined;
+    const query = this.platform ? `?platform=${this.platform}` : '';
+
+    return assets
+      .filter(asset => asset.name.endsWith('.map'))
+      .map(asset => ({
+        bundle: asset.name.slice(0, -'.map'.length),
+        path: path.resolve(outputPath ?? compiler.options.output.path ?? '', asset.name),
+        ...(devServerUrl && { url: `${devServerUrl}/${asset.name}${query}` }),
+        context: compiler.options.context ?? process.cwd(),
+      }));
+  }
+
+  /**
+   * Summarise the emitted assets and chunks and the largest modules.
+   */
+  private summarizeBundle(info: StatsCompilation): BundleReport {
+    const assets = (info.assets ?? [])
+      .filter(asset => !asset.name.endsWith('.map'))
+      .map(asset => ({ name: asset.name, size: asset.size }))
+      .sort((a, b) => b.size - a.size);
+
+    const chunks = (info.chunks ?? []).map(chunk => ({
+      name: chunk.names && chunk.names.length > 0 ? chunk.names.join(', ') : String(chunk.id ?? 'unnamed'),
+      size: chunk.size,
+      files: (chunk.files ?? []).filter(file => !file.endsWith('.map')),
+    }));
+
+    const modules = (info.modules ?? [])
+      .filter(module => module.name && !module.orphan)
+      .map(module => ({ name: module.name!, size: module.size }))
+      .sort((a, b) => b.size - a.size);
+
+    return {
+      totalSize: assets.reduce((sum, asset) => sum + asset.size, 0),
+      assets,
+      chunks,
+      moduleCount: modules.length,
+      modules: modules.slice(0, MAX_BUNDLE_MODULES),
+    };
+  }
+
+  /**
+   * Read the hot update manifests a rebuild emitted. Webpack names them
+   * after the hash of the previous compilation and lists updated chunks
+   * (`c`), removed chunks (`r`) and removed modules (`m`); the updated
+   * modules are those the rebuild built.
+   */
+  private summarizeHotUpdate(manifests: Array<{ name: string; source: { source(): string | Buffer } }>, info: StatsCompilation): HotUpdate {
+    const hotUpdate: HotUpdate = {
+      previousHash: '',
+      updatedModules: [],
+      removedModules: [],
+      updatedChunks: [],
+      removedChunks: [],
+    };
+
+    for (const manifest of manifests) {
+      hotUpdate.previousHash ||= manifest.name.match(/([^.]+)\.hot-update\.json$/)?.[1] ?? '';
+      try {
+        const { c, r, m } = JSON.parse(manifest.source.source().toString()) as {
+          c?: Array<string | number>;
+          r?: Array<string | number>;
+          m?: Array<string | number>;
+        };
+        hotUpdate.updatedChunks.push(...(c ?? []).map(String));
+        hotUpdate.removedChunks.push(...(r ?? []).map(String));
+        hotUpdate.removedModules.push(...(m ?? []).map(String));
+      } catch {
+        // Not a manifest we understand; keep what the others list
+      }
+    }
+
+    hotUpdate.updatedModules = (info.modules ?? [])
+      .filter(module => module.built && module.name)
+      .map(module => module.name!)
+      .slice(0, MAX_REPORTED_MODULES);
+    return hotUpdate;
+  }
+
+  private trackModuleTimings(compilation: Compilation, context: string): void {
+    this.moduleStarts.clear();
+    this.builtModules = [];
+
+    compilation.hooks.buildModule.tap('RepackLogsPlugin', (module) => {
+      this.moduleStarts.set(module.identifier(), performance.now());
+    });
+
+    compilation.hooks.succeedModule.tap('RepackLogsPlugin', (module) => {
+      const start = this.moduleStarts.get(module.identifier());
+      if (start === undefined) return;
+      this.moduleStarts.delete(module.identifier());
+
+      const { resource, loaders } = module as Module & { resource?: string; loaders?: Array<{ loader: string }> };
+      this.builtModules.push({
+        module: resource ? path.relative(context, resource) : module.readableIdentifier(),
+        loaders: (loaders ?? []).map(item => loaderName(item.loader)),
+        duration: Math.round(performance.now() - start),
       });
     });
   }
 
+  /**
+   * Count the modules of a compilation as they are built and write its
+   * progress periodically, whenever it changed since the last write.
+   * Builds shorter than the interval write no progress at all.
+   */
+  private trackProgress(compilation: Compilation): void {
+    this.stopProgress();
+    this.currentProgress = { percentage: 0, phase: 'building', modulesBuilt: 0, modulesTotal: 0 };
+    this.lastProgress = null;
+
+    compilation.hooks.buildModule.tap('RepackLogsPlugin', () => {
+      if (this.currentProgress) this.currentProgress.modulesTotal++;
+    });
+    compilation.hooks.succeedModule.tap('RepackLogsPlugin', () => {
+      const progress = this.currentProgress;
+      if (!progress) return;
+      progress.modulesBuilt++;
+      // Modules are discovered while others build, so this can briefly drop
+      if (progress.phase === 'building') {
+        progress.percentage = Math.floor(BUILDING_SHARE * progress.modulesBuilt / progress.modulesTotal);
+      }
+    });
+    compilation.hooks.seal.tap('RepackLogsPlugin', () => {
+      this.setPhase('sealing');
+    });
+
+    this.progressTimer = setInterval(() => this.writeProgress(), PROGRESS_INTERVAL_MS);
+    this.progressTimer.unref();
+  }
+
+  private setPhase(phase: BuildPhase): void {
+    if (!this.currentProgress) return;
+    this.currentProgress.phase = phase;
+    this.currentProgress.percentage = Math.max(this.currentProgress.percentage, PHASE_PERCENTAGES[phase]);
+  }
+
+  private writeProgress(): void {
+    const progress = this.currentProgress;
+    if (!progress) return;
+
+    const last = this.lastProgress;
+    if (last && last.percentage === progress.percentage && last.phase === progress.phase
+      && last.modulesBuilt === progress.modulesBuilt) return;
+    this.lastProgress = { ...progress };
+
+    const phase = progress.phase[0].toUpperCase() + progress.phase.slice(1);
+    this.writeLog({
+      type: 'progress',
+      message: `${phase}: ${progress.percentage}% (${progress.modulesBuilt}/${progress.modulesTotal} modules)`,
+      issuer: 'repack',
+      progress: { ...progress },
+    });
+  }
+
+  private stopProgress(): void {
+    if (this.progressTimer) clearInterval(this.progressTimer);
+    this.progressTimer = null;
+    this.currentProgress = null;
+  }
+
+  /**
+   * Sum up the module build times of the compilation that just finished.
+   */
+  private summarizeTimings(): BuildTimings {
+    const loaders = new Map<string, LoaderTiming>();
+    for (const timing of this.builtModules) {
+      for (const loader of new Set(timing.loaders)) {
+        const total = loaders.get(loader) ?? { loader, duration: 0, modules: 0 };
+        total.duration += timing.duration;
+        total.modules++;
+        loaders.set(loader, total);
+      }
+    }
+
+    const modules = [...this.builtModules].sort((a, b) => b.duration - a.duration);
+    this.builtModules = [];
+
+    return {
+      moduleCount: modules.length,
+      totalDuration: modules.reduce((sum, timing) => sum + timing.duration, 0),
+      modules: modules.slice(0, MAX_REPORTED_MODULES),
+      loaders: [...loaders.values()].sort((a, b) => b.duration - a.duration),
+    };
+  }
+
+  private nextBuildId(): string {
+    this.buildCounter++;
+    const id = `${this.sessionId}-${this.buildCounter}`;
+    return this.platform ? `${this.platform}-${id}` : id;
+  }
+
   private writeLog(entry: Omit<LogEntry, 'timestamp'>): void {
     const logEntry = {
       timestamp: new Date().toISOString(),
+      ...(this.platform && { platform: this.platform }),
+      ...(this.currentBuildId && { buildId: this.currentBuildId }),
       ...entry,
     } as LogEntry;
 
-    try {
-      fs.appendFileSync(this.outputPath, JSON.stringify(logEntry) + '\n');
-    } catch (err) {
-      console.error('[RepackLogsPlugin] Failed to write log:', err);
-    }
+    this.transport.write(logEntry);
   }
 }
 
@@ -0,0 +1,403 @@
+import type { LogEntry } from './types.js';
+
+/**
+ * A log query that could not be parsed. `position` is the offset in the
+ * query string where the problem was found.
+ */
+export class QueryError extends Error {
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position})`);
+    this.name = 'QueryError';
+    this.position = position;
+  }
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse an ISO timestamp or a relative time such as "30s", "5m", "2h"
+ * or "1d" (meaning that long ago) into epoch milliseconds.
+ */
+export function parseTime(value: string, now: number = Date.now()): number {
+  const trimmed = value.trim();
+  if (trimmed === 'now') return now;
+
+  const relative = trimmed.match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)$/);
+  if (relative) {
+    return now - parseFloat(relative[1]) * DURATION_UNITS[relative[2]];
+  }
+
+  const time = Date.parse(trimmed);
+  if (Number.isNaN(time)) {
+    throw new QueryError(
+      `Invalid time "${value}": use an ISO timestamp or a relative time like 30s, 5m, 2h, 1d`
+    );
+  }
+  return time;
+}
+
+type Operator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+
+type QueryNode =
+  | { kind: 'and'; nodes: QueryNode[] }
+  | { kind: 'or'; nodes: QueryNode[] }
+  | { kind: 'not'; node: QueryNode }
+  | { kind: 'term'; field?: string; operator: Operator; value: string | RegExp; position: number };
+
+type Token =
+  | { kind: '(' | ')' | 'AND' | 'OR' | 'NOT'; position: number }
+  | { kind: 'term'; field?: string; operator: Operator; value: string | RegExp; position: number };
+
+/** Field aliases accepted in queries */
+const FIELD_ALIASES: Record<string, string> = {
+  tag: 'issuer',
+  level: 'type',
+  msg: 'message',
+  build: 'buildId',
+  time: 'timestamp',
+  device: 'deviceId',
+  session: 'sessionId',
+  category: 'classification.category',
+};
+
+/**
+ * The field a query name stands for. Only own properties count, so names
+ * like `constructor` are plain fields.
+ */
+function unalias(field: string): string {
+  return Object.hasOwn(FIELD_ALIASES, field) ? FIELD_ALIASES[field] : field;
+}
+
+const OPERATORS: Operator[] = ['!=', '>=', '<=', ':', '=', '>', '<', '~'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const readRegex = (start: number): RegExp => {
+    let end = start + 1;
+    while (end < source.length && source[end] !== '/') {
+      if (source[end] === '\\') end++;
+      end++;
+    }
+    if (end >= source.length) {
+      throw new QueryError('Unterminated regular expression', start);
+    }
+    const body = source.slice(start + 1, end);
+    let flagsEnd = end + 1;
+    while (flagsEnd < source.length && /[a-z]/.test(source[flagsEnd])) flagsEnd++;
+    const flags = source.slice(end + 1, flagsEnd);
+    pos = flagsEnd;
+    try {
+      return new RegExp(body, flags);
+    } catch (err) {
+      throw new QueryError(`Invalid regular expression /${body}/${flags}: ${(err as Error).message}`, start);
+    }
+  };
+
+  const readString = (start: number): string => {
+    let value = '';
+    let end = start + 1;
+    while (end < source.length && source[end] !== '"') {
+      if (source[end] === '\\' && end + 1 < source.length) end++;
+      value += source[end];
+      end++;
+    }
+    if (end >= source.length) {
+      throw new QueryError('Unterminated string', start);
+    }
+    pos = end + 1;
+    return value;
+  };
+
+  const readWord = (): string => {
+    const start = pos;
+    while (pos < source.length && !/[\s()]/.test(source[pos])) pos++;
+    return source.slice(start, pos);
+  };
+
+  const readValue = (start: number): string | RegExp => {
+    if (source[pos] === '"') return readString(pos);
+    if (source[pos] === '/' && source[pos + 1] !== '/') return readRegex(pos);
+    const word = readWord();
+    if (!word) throw new QueryError('Expected a value', start);
+    return word;
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+    const start = pos;
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char, position: start });
+      pos++;
+      continue;
+    }
+    if (char === '-' && pos + 1 < source.length && !/[\s\d]/.test(source[pos + 1])) {
+      tokens.push({ kind: 'NOT', position: start });
+      pos++;
+      continue;
+    }
+    if (char === '"') {
+      tokens.push({ kind: 'term', operator: ':', value: readString(start), position: start });
+      continue;
+    }
+    if (char === '/') {
+      tokens.push({ kind: 'term', operator: '~', value: readRegex(start), position: start });
+      continue;
+    }
+
+    // field<op>value
+    const field = source.slice(pos).match(/^[A-Za-z_][\w.]*/)?.[0];
+    if (field) {
+      const afterField = pos + field.length;
+      const operator = OPERATORS.find(op => source.startsWith(op, afterField));
+      if (operator) {
+        pos = afterField + operator.length;
+        let value = readValue(start);
+        let op: Operator = operator;
+        if (value instanceof RegExp) op = '~';
+        else if (operator === '~') value = toRegex(value, start);
+        tokens.push({ kind: 'term', field, operator: op, value, position: start });
+        continue;
+      }
+    }
+
+    const word = readWord();
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ kind: word, position: start });
+    } else if (word === '&&' || word === '||') {
+      tokens.push({ kind: word === '&&' ? 'AND' : 'OR', position: start });
+    } else {
+      tokens.push({ kind: 'term', operator: ':', value: word, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+function toRegex(value: string, position: number): RegExp {
+  try {
+    return new RegExp(value, 'i');
+  } catch (err) {
+    throw new QueryError(`Invalid regular expression ${value}: ${(err as Error).message}`, position);
+  }
+}
+
+/**
+ * Recursive descent parser:
+ *   or   := and ('OR' and)*
+ *   and  := not ('AND'? not)*
+ *   not  := ('NOT' | '-') not | '(' or ')' | term
+ */
+function parse(tokens: Token[], source: string): QueryNode {
+  let index = 0;
+
+  const peek = () => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()];
+    while (peek()?.kind === 'OR') {
+      index++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'or', nodes };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const nodes = [parseNot()];
+    while (peek() && peek().kind !== 'OR' && peek().kind !== ')') {
+      if (peek().kind === 'AND') index++;
+      nodes.push(parseNot());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'and', nodes };
+  };
+
+  const parseNot = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new QueryError('Unexpected end of query', source.length);
+    }
+    index++;
+
+    switch (token.kind) {
+      case 'NOT':
+        return { kind: 'not', node: parseNot() };
+      case '(': {
+        const node = parseOr();
+        if (peek()?.kind !== ')') {
+          throw new QueryError('Expected ")"', peek()?.position ?? source.length);
+        }
+        index++;
+        return node;
+      }
+      case 'term':
+        return token;
+      default:
+        throw new QueryError(`Unexpected "${token.kind}"`, token.position);
+    }
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw new QueryError(`Unexpected "${token.kind === 'term' ? source.slice(token.position).split(/\s/)[0] : token.kind}"`, token.position);
+  }
+  return node;
+}
+
+function resolveField(entry: LogEntry, field: string): unknown {
+  const [head, ...rest] = field.split('.');
+  let value: unknown = entry;
+  for (const key of [...unalias(head).split('.'), ...rest]) {
+    if (value === null || typeof value !== 'object' || !Object.hasOwn(value, key)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function globToRegex(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function compareValues(actual: unknown, expected: string, field: string | undefined): number | null {
+  if (typeof actual === 'number' || (typeof actual === 'string' && actual.trim() !== '' && !Number.isNaN(Number(actual)))) {
+    const expectedNumber = Number(expected);
+    if (!Number.isNaN(expectedNumber)) return Number(actual) - expectedNumber;
+  }
+  if (field && unalias(field) === 'timestamp' && typeof actual === 'string') {
+    return Date.parse(actual) - parseTime(expected);
+  }
+  if (typeof actual === 'string') return actual.localeCompare(expected);
+  return null;
+}
+
+function matchesValue(actual: unknown, operator: Operator, expected: string | RegExp, field?: string): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some(item => matchesValue(item, operator, expected, field));
+  }
+  if (actual === undefined || actual === null) return operator === '!=';
+
+  if (expected instanceof RegExp) {
+    expected.lastIndex = 0;
+    const text = typeof actual === 'object' ? JSON.stringify(actual) : String(actual);
+    return expected.test(text);
+  }
+
+  switch (operator) {
+    case ':': {
+      const text = typeof actual === 'object' ? JSON.stringify(actual) : String(actual);
+      if (expected.includes('*')) return globToRegex(expected).test(text);
+      return text.toLowerCase().includes(expected.toLowerCase());
+    }
+    case '=':
+    case '!=': {
+      const equal = compareValues(actual, expected, field) === 0
+        || String(actual).toLowerCase() === expected.toLowerCase();
+      return operator === '=' ? equal : !equal;
+    }
+    default: {
+      const diff = compareValues(actual, expected, field);
+      if (diff === null || Number.isNaN(diff)) return false;
+      switch (operator) {
+        case '>': return diff > 0;
+        case '>=': return diff >= 0;
+        case '<': return diff < 0;
+        case '<=': return diff <= 0;
+        default: return false;
+      }
+    }
+  }
+}
+
+function compile(node: QueryNode): (entry: LogEntry) => boolean {
+  switch (node.kind) {
+    case 'and': {
+      const predicates = node.nodes.map(compile);
+      return entry => predicates.every(predicate => predicate(entry));
+    }
+    case 'or': {
+      const predicates = node.nodes.map(compile);
+      return entry => predicates.some(predicate => predicate(entry));
+    }
+    case 'not': {
+      const predicate = compile(node.node);
+      return entry => !predicate(entry);
+    }
+    case 'term':
+      return compileTerm(node);
+  }
+}
+
+function compileTerm(term: Extract<QueryNode, { kind: 'term' }>): (entry: LogEntry) => boolean {
+  const { field, operator, value } = term;
+
+  // since:5m / until:2024-01-01T00:00:00Z
+  if (field === 'since' || field === 'until') {
+    if (typeof value !== 'string') {
+      throw new QueryError(`${field} expects a time, not a regular expression`, term.position);
+    }
+    let time: number;
+    try {
+      time = parseTime(value);
+    } catch (err) {
+      throw new QueryError((err as Error).message, term.position);
+    }
+    return field === 'since'
+      ? entry => Date.parse(entry.timestamp) >= time
+      : entry => Date.parse(entry.timestamp) <= time;
+  }
+
+  // Bare words and regexes search the message, file and request
+  if (!field) {
+    return entry => [entry.message, entry.file, entry.request]
+      .some(text => text !== undefined && matchesValue(text, operator, value));
+  }
+
+  // Validate relative times up front so errors surface at parse time
+  if (unalias(field) === 'timestamp' && typeof value === 'string' && !['=', '!=', ':'].includes(operator)) {
+    try {
+      parseTime(value);
+    } catch (err) {
+      throw new QueryError((err as Error).message, term.position);
+    }
+  }
+
+  return entry => matchesValue(resolveField(entry, field), operator, value, field);
+}
+
+/**
+ * Parse a log query into a predicate over LogEntry.
+ *
+ * Syntax:
+ *   - bare words and "quoted phrases" search message, file and request
+ *   - /regex/flags matches the message, file or request
+ *   - field:value (contains, `*` globs), field=value, field!=value,
+ *     field>n, field>=n, field<n, field<=n, field~regex or field:/regex/
+ *   - nested data paths: data.status>=500
+ *   - aliases: tag (issuer), level (type), msg (message), build (buildId),
+ *     category (classification.category)
+ *   - since:5m, until:2024-01-01T12:00:00Z (relative: s, m, h, d, w)
+ *   - AND (implicit between terms), OR, NOT or -term, and parentheses
+ *
+ * Throws QueryError on invalid input.
+ */
+export function parseQuery(source: string): (entry: LogEntry) => boolean {
+  const tokens = tokenize(source);
+  if (tokens.length === 0) return () => true;
+  return compile(parse(tokens, source));
+}
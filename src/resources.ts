@@ -0,0 +1,175 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { isBuildLog, type LogStore } from './log-store.js';
+import type { LogSources } from './log-sources.js';
+import type { RuntimeServer } from './runtime-server.js';
+import type { LogEntry } from './types.js';
+
+export interface ResourceOptions {
+  store: LogStore;
+  sources: LogSources;
+  runtimeServer: RuntimeServer;
+}
+
+const STATUS_URI = 'repack://status';
+const LATEST_BUILD_URI = 'repack://builds/latest';
+const ERRORS_URI = 'repack://errors';
+const RUNTIME_URI_PREFIX = 'repack://runtime/';
+
+/** Coalesce bursts of entries into one notification per resource */
+const NOTIFY_DELAY_MS = 250;
+const RUNTIME_RESOURCE_LIMIT = 100;
+
+function json(uri: URL, value: unknown) {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: 'application/json',
+      text: JSON.stringify(value, null, 2),
+    }],
+  };
+}
+
+function runtimeUri(tag: string): string {
+  return `${RUNTIME_URI_PREFIX}${encodeURIComponent(tag)}`;
+}
+
+/**
+ * Register the log views as MCP resources and send `resources/updated`
+ * notifications for subscribed views as the LogStore changes.
+ * Must be called before the server is connected.
+ */
+export function registerResources(server: McpServer, options: ResourceOptions): void {
+  const { store, sources, runtimeServer } = options;
+
+  server.resource(
+    'status',
+    STATUS_URI,
+    { description: 'Log sources, runtime server and log statistics', mimeType: 'application/json' },
+    async (uri) => json(uri, {
+      watching: sources.isWatching,
+      files: sources.files.map(({ source, watcher }) => ({
+        ...(source && { source }),
+        filePath: watcher.path,
+        fileExists: watcher.fileExists,
+      })),
+      runtimeServerPort: runtimeServer.activePort,
+      logCount: store.count,
+      errorCount: store.countByType('error'),
+      warningCount: store.countByType('warn'),
+      lastUpdate: store.lastTimestamp,
+      platforms: store.platforms,
+      sources: store.sources,
+      latestBuild: store.getBuilds(1)[0] ?? null,
+    })
+  );
+
+  server.resource(
+    'latest-build',
+    LATEST_BUILD_URI,
+    { description: 'The most recent compilation and its logs', mimeType: 'application/json' },
+    async (uri) => {
+      const build = store.getBuilds(1)[0];
+      return json(uri, {
+        build: build ?? null,
+        logs: build ? store.get({ buildId: build.id }) : [],
+      });
+    }
+  );
+
+  server.resource(
+    'errors',
+    ERRORS_URI,
+    { description: 'Distinct errors and warnings grouped by fingerprint', mimeType: 'application/json' },
+    async (uri) => json(uri, { groups: store.getErrorGroups({ limit: 50 }) })
+  );
+
+  server.resource(
+    'runtime-logs',
+    new ResourceTemplate(`${RUNTIME_URI_PREFIX}{tag}`, {
+      list: async () => ({
+        resources: runtimeTags(store).map(tag => ({
+          uri: runtimeUri(tag),
+          name: `Runtime logs: ${tag}`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    { description: 'Recent runtime logs for one tag', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const tag = decodeURIComponent(String(variables.tag));
+      const logs = store.get().filter(log => !isBuildLog(log) && log.issuer === tag);
+      return json(uri, { tag, logs: logs.slice(-RUNTIME_RESOURCE_LIMIT) });
+    }
+  );
+
+  // Subscriptions
+  const subscriptions = new Set<string>();
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+  const knownTags = new Set(runtimeTags(store));
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notify = (uri: string) => {
+    if (!subscriptions.has(uri) || pending.has(uri)) return;
+
+    pending.set(uri, setTimeout(() => {
+      pending.delete(uri);
+      if (!server.isConnected()) return;
+      server.server.sendResourceUpdated({ uri }).catch(() => {
+        // Client went away; nothing to do
+      });
+    }, NOTIFY_DELAY_MS));
+  };
+
+  store.on('entry', (entry: LogEntry) => {
+    notify(STATUS_URI);
+
+    if (entry.buildId && entry.buildId === store.getBuilds(1)[0]?.id) {
+      notify(LATEST_BUILD_URI);
+    }
+
+    if (!isBuildLog(entry) && entry.issuer) {
+      notify(runtimeUri(entry.issuer));
+      if (!knownTags.has(entry.issuer)) {
+        knownTags.add(entry.issuer);
+        if (server.isConnected()) server.sendResourceListChanged();
+      }
+    }
+  });
+
+  store.on('build', () => {
+    notify(LATEST_BUILD_URI);
+    notify(STATUS_URI);
+  });
+
+  store.on('errorGroup', () => {
+    notify(ERRORS_URI);
+  });
+
+  store.on('clear', () => {
+    knownTags.clear();
+    for (const uri of subscriptions) notify(uri);
+  });
+}
+
+function runtimeTags(store: LogStore): string[] {
+  const tags = new Set<string>();
+  for (const log of store.get()) {
+    if (!isBuildLog(log) && log.issuer) tags.add(log.issuer);
+  }
+  return [...tags].sort();
+}
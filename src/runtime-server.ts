@@ -1,33 +1,178 @@
 import http from 'node:http';
-import type { LogStore } from './log-store.js';
-import type { LogEntry, LogType } from './types.js';
+import { listBuilds, queryErrors, queryLogs } from './log-queries.js';
+import { createLogMatcher, type LogStore } from './log-store.js';
+import { LogStreamSubscriber } from './log-stream.js';
+import { toLogEntry } from './log-watcher.js';
+import { QueryError } from './query.js';
+import type { StatusReport } from './schemas.js';
+import type { DeliveryReport, DeviceIdentity, ErrorCategory, HmrEvent, LogEntry, LogFilter, LogType, NetworkRequest } from './types.js';
+
+/**
+ * Guess the app platform from React Native's default fetch user agents:
+ * iOS sends CFNetwork/Darwin, Android sends okhttp.
+ */
+function platformFromUserAgent(userAgent?: string): string | undefined {
+  if (!userAgent) return undefined;
+  if (/CFNetwork|Darwin/i.test(userAgent)) return 'ios';
+  if (/okhttp|Android/i.test(userAgent)) return 'android';
+  return undefined;
+}
+
+/**
+ * Keep the known fields of a network record sent by the client.
+ */
+function parseNetwork(value: unknown): NetworkRequest | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const record = value as Record<string, unknown>;
+  if (typeof record.url !== 'string') return undefined;
+
+  const number = (field: unknown) => typeof field === 'number' && Number.isFinite(field) ? field : undefined;
+  const string = (field: unknown) => typeof field === 'string' ? field : undefined;
+  const headers = (field: unknown) => field && typeof field === 'object'
+    ? Object.fromEntries(Object.entries(field).map(([name, header]) => [name, String(header)]))
+    : undefined;
+
+  return {
+    method: string(record.method)?.toUpperCase() ?? 'GET',
+    url: record.url,
+    status: number(record.status),
+    duration: number(record.duration) ?? 0,
+    requestSize: number(record.requestSize),
+    responseSize: number(record.responseSize),
+    requestHeaders: headers(record.requestHeaders),
+    responseHeaders: headers(record.responseHeaders),
+    requestBody: string(record.requestBody),
+    responseBody: string(record.responseBody),
+    error: string(record.error),
+  };
+}
+
+const HMR_EVENTS: HmrEvent['event'][] = ['load', 'applied', 'failed', 'reload'];
+
+/**
+ * Keep the known fields of a hot update or reload event sent by the client.
+ */
+function parseHmr(value: unknown): HmrEvent | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const record = value as Record<string, unknown>;
+  const event = HMR_EVENTS.find(known => known === record.event);
+  if (!event) return undefined;
+
+  const string = (field: unknown) => typeof field === 'string' ? field : undefined;
+  return {
+    event,
+    hash: string(record.hash),
+    previousHash: string(record.previousHash),
+    status: string(record.status),
+    reason: string(record.reason),
+  };
+}
+
+/**
+ * Read an optional integer query parameter.
+ */
+function parseNumber(value: string | null): number | undefined {
+  const number = parseInt(value ?? '', 10);
+  return Number.isNaN(number) ? undefined : number;
+}
 
 export interface RuntimeServerOptions {
   port: number;
   store: LogStore;
+  /** Serves GET /status; see getStatus() */
+  status?: (platform?: string, source?: string) => StatusReport;
+}
+
+const QUERY_PATHS = ['/logs', '/errors', '/builds', '/status'];
+/** Routes the app posts logs to */
+const INGEST_PATHS = ['/log', '/logs'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether a request comes from this machine and names it by a loopback
+ * host. Logs can hold request bodies and tokens, so they are only read
+ * locally: not by other hosts on the network, nor by web pages through
+ * DNS rebinding.
+ */
+function isLocalRequest(req: http.IncomingMessage): boolean {
+  const address = req.socket.remoteAddress ?? '';
+  if (!/^(::ffff:)?127\./.test(address) && address !== '::1') return false;
+  try {
+    return LOOPBACK_HOSTS.includes(new URL(`http://${req.headers.host ?? ''}`).hostname);
+  } catch {
+    return false;
+  }
+}
+
+function isJsonRequest(req: http.IncomingMessage): boolean {
+  return /^application\/json\s*(;|$)/i.test(req.headers['content-type'] ?? '');
+}
+
+/**
+ * Read the get_build_logs filters from query parameters.
+ * `types` may be repeated or comma-separated.
+ */
+function parseFilter(params: URLSearchParams): LogFilter {
+  const types = params.getAll('types')
+    .flatMap(value => value.split(','))
+    .map(type => type.trim())
+    .filter(Boolean) as LogType[];
+
+  return {
+    types: types.length > 0 ? types : undefined,
+    since: params.get('since') ?? undefined,
+    until: params.get('until') ?? undefined,
+    issuer: params.get('issuer') ?? undefined,
+    search: params.get('search') ?? undefined,
+    platform: params.get('platform') ?? undefined,
+    source: params.get('source') ?? undefined,
+    query: params.get('query') ?? undefined,
+    device: params.get('device') ?? undefined,
+    session: params.get('session') ?? undefined,
+    category: (params.get('category') ?? undefined) as ErrorCategory | undefined,
+  };
 }
 
 /**
  * HTTP server that accepts runtime logs from the React Native app.
- * Logs are posted to POST /log with JSON body.
+ * Logs are posted to POST /log with JSON body; the plugin's `http`
+ * transport posts build logs to POST /build-logs, from this machine.
+ * GET /stream pushes new entries to other tools as Server-Sent Events,
+ * and GET /logs, /errors, /builds and /status answer the same queries
+ * as the MCP tools (see log-queries.ts); both only to requests from this
+ * machine.
+ * Only the routes that accept logs from the app, and GET /health, send
+ * CORS headers.
  */
 export class RuntimeServer {
   private server: http.Server | null = null;
   private port: number;
   private store: LogStore;
+  private status: ((platform?: string, source?: string) => StatusReport) | undefined;
+  private subscribers = new Set<LogStreamSubscriber>();
+  private buildLogsReceived = 0;
+  private lastBuildLogAt: string | undefined;
 
   constructor(options: RuntimeServerOptions) {
     this.port = options.port;
     this.store = options.store;
+    this.status = options.status;
   }
 
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server = http.createServer((req, res) => {
-        // CORS headers for React Native
-        res.setHeader('Access-Control-Allow-Origin', '*');
-        res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+        const url = new URL(req.url ?? '/', 'http://localhost');
+
+        // CORS headers for React Native, on the routes that accept logs, and
+        // for health checks, which only expose a count
+        if (INGEST_PATHS.includes(url.pathname) && (req.method === 'POST' || req.method === 'OPTIONS')) {
+          res.setHeader('Access-Control-Allow-Origin', '*');
+          res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+          res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+        } else if (url.pathname === '/health' && req.method === 'GET') {
+          res.setHeader('Access-Control-Allow-Origin', '*');
+        }
 
         if (req.method === 'OPTIONS') {
           res.writeHead(204);
@@ -35,7 +180,7 @@ export class RuntimeServer {
           return;
         }
 
-        if (req.method === 'POST' && req.url === '/log') {
+        if (req.method === 'POST' && url.pathname === '/log') {
           let body = '';
           req.on('data', chunk => {
             body += chunk.toString();
@@ -43,7 +188,8 @@ export class RuntimeServer {
           req.on('end', () => {
             try {
               const data = JSON.parse(body);
-              this.handleLog(data);
+              this.handleLog(data, data.device, platformFromUserAgent(req.headers['user-agent']));
+              this.handleDelivery(data.device, data.delivery);
               res.writeHead(200, { 'Content-Type': 'application/json' });
               res.end(JSON.stringify({ success: true }));
             } catch (err) {
@@ -54,7 +200,7 @@ export class RuntimeServer {
           return;
         }
 
-        if (req.method === 'POST' && req.url === '/logs') {
+        if (req.method === 'POST' && url.pathname === '/logs') {
           // Batch endpoint
           let body = '';
           req.on('data', chunk => {
@@ -64,10 +210,12 @@ export class RuntimeServer {
             try {
               const data = JSON.parse(body);
               if (Array.isArray(data.logs)) {
+                const platform = platformFromUserAgent(req.headers['user-agent']);
                 for (const log of data.logs) {
-                  this.handleLog(log);
+                  this.handleLog(log, data.device, platform);
                 }
               }
+              this.handleDelivery(data.device, data.delivery);
               res.writeHead(200, { 'Content-Type': 'application/json' });
               res.end(JSON.stringify({ success: true, count: data.logs?.length ?? 0 }));
             } catch (err) {
@@ -78,12 +226,77 @@ export class RuntimeServer {
           return;
         }
 
-        if (req.method === 'GET' && req.url === '/health') {
+        if (req.method === 'POST' && url.pathname === '/build-logs') {
+          // Build entries name the files get_error_context reads and the source
+          // maps the symbolicator loads, so only the local plugin may post them
+          if (!isLocalRequest(req)) {
+            this.forbid(res, 'Build logs can only be posted from this machine, to localhost');
+            return;
+          }
+          if (!isJsonRequest(req)) {
+            res.writeHead(415, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Build logs must be posted as application/json' }));
+            return;
+          }
+          let body = '';
+          req.on('data', chunk => {
+            body += chunk.toString();
+          });
+          req.on('end', () => {
+            try {
+              const data = JSON.parse(body);
+              const source = typeof data.source === 'string' && data.source ? data.source : undefined;
+              const entries = (Array.isArray(data.entries) ? data.entries : [])
+                .map(toLogEntry)
+                .filter((entry: LogEntry | null): entry is LogEntry => entry !== null)
+                .map((entry: LogEntry) => source ? { ...entry, source } : entry);
+              this.store.addMany(entries);
+              this.buildLogsReceived += entries.length;
+              this.lastBuildLogAt = new Date().toISOString();
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, count: entries.length }));
+            } catch (err) {
+              res.writeHead(400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Invalid JSON' }));
+            }
+          });
+          return;
+        }
+
+        if (req.method === 'GET' && url.pathname === '/health') {
           res.writeHead(200, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ status: 'ok', logs: this.store.count }));
           return;
         }
 
+        if (req.method === 'GET' && url.pathname === '/stream') {
+          if (!isLocalRequest(req)) {
+            this.forbid(res);
+            return;
+          }
+          this.handleStream(req, res, url.searchParams);
+          return;
+        }
+
+        if (req.method === 'GET' && QUERY_PATHS.includes(url.pathname)
+          && (url.pathname !== '/status' || this.status)) {
+          if (!isLocalRequest(req)) {
+            this.forbid(res);
+            return;
+          }
+          this.handleQuery(url.pathname, url.searchParams)
+            .then(result => {
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(result));
+            })
+            .catch(err => {
+              const invalid = err instanceof QueryError;
+              res.writeHead(invalid ? 400 : 500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: invalid ? `Invalid query: ${err.message}` : String(err) }));
+            });
+          return;
+        }
+
         res.writeHead(404);
         res.end('Not found');
       });
@@ -105,6 +318,83 @@ export class RuntimeServer {
     });
   }
 
+  private forbid(res: http.ServerResponse, error = 'Logs can only be read from this machine, at localhost'): void {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error }));
+  }
+
+  /**
+   * Answer a read-only query. Log pages take `limit` and `before` (an
+   * entry ID, or a build ID for /builds) and return the `nextCursor`.
+   */
+  private async handleQuery(pathname: string, params: URLSearchParams): Promise<unknown> {
+    const filter = parseFilter(params);
+    const limit = parseNumber(params.get('limit'));
+
+    switch (pathname) {
+      case '/logs':
+        return queryLogs(this.store, {
+          ...filter,
+          limit,
+          before: parseNumber(params.get('before')),
+          order: params.get('order') === 'newest' ? 'newest' : 'oldest',
+        });
+      case '/errors':
+        // `types` is ignored: always errors and warnings
+        return queryErrors(this.store, {
+          ...filter,
+          limit,
+          before: parseNumber(params.get('before')),
+        });
+      case '/builds':
+        return listBuilds(this.store, {
+          limit,
+          platform: filter.platform,
+          source: filter.source,
+          before: params.get('before') ?? undefined,
+        });
+      default:
+        return this.status!(filter.platform, filter.source);
+    }
+  }
+
+  /**
+   * Start a Server-Sent Events stream. On reconnect, entries after the
+   * Last-Event-ID header (or `lastEventId` param) still in memory are
+   * replayed; otherwise `since` or `limit` select the initial backlog.
+   */
+  private handleStream(req: http.IncomingMessage, res: http.ServerResponse, params: URLSearchParams): void {
+    let matches: (log: LogEntry) => boolean;
+    try {
+      matches = createLogMatcher(parseFilter(params));
+    } catch (err) {
+      if (!(err instanceof QueryError)) throw err;
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Invalid query: ${err.message}` }));
+      return;
+    }
+
+    const lastEventId = parseInt(String(req.headers['last-event-id'] ?? params.get('lastEventId') ?? ''), 10);
+    const limit = parseInt(params.get('limit') ?? '', 10);
+
+    let replay: LogEntry[] = [];
+    if (!Number.isNaN(lastEventId)) {
+      replay = this.store.get().filter(log => log.id !== undefined && log.id > lastEventId && matches(log));
+    } else if (params.has('since') || limit > 0) {
+      replay = this.store.get().filter(matches);
+      if (limit > 0) replay = replay.slice(-limit);
+    }
+
+    const subscriber = new LogStreamSubscriber(res, { store: this.store, matches, replay });
+    this.subscribers.add(subscriber);
+    subscriber.onClosed(() => this.subscribers.delete(subscriber));
+  }
+
+  /**
+   * Store a runtime log, stamped with the identity of the device that
+   * sent it (reported once per request). `platformHint` is used when the
+   * client did not report its platform itself.
+   */
   private handleLog(data: {
     type?: string;
     message?: string;
@@ -112,8 +402,18 @@ export class RuntimeServer {
     file?: string;
     line?: number;
     data?: unknown;
-  }): void {
+    platform?: string;
+    stack?: string;
+    errorName?: string;
+    isFatal?: boolean;
+    componentStack?: string;
+    network?: unknown;
+    hmr?: unknown;
+  }, device?: DeviceIdentity, platformHint?: string): void {
     const logType = this.parseLogType(data.type);
+    const platform = data.platform ?? device?.platform ?? platformHint;
+    const network = parseNetwork(data.network);
+    const hmr = parseHmr(data.hmr);
 
     const entry = {
       timestamp: new Date().toISOString(),
@@ -121,13 +421,45 @@ export class RuntimeServer {
       message: data.message ?? String(data),
       issuer: data.tag ?? 'app',
       file: data.file,
+      ...(platform ? { platform } : {}),
+      ...(device?.deviceId ? {
+        deviceId: String(device.deviceId),
+        ...(device.deviceName && { deviceName: device.deviceName }),
+        ...(device.osVersion && { osVersion: String(device.osVersion) }),
+        ...(device.appVersion && { appVersion: device.appVersion }),
+        ...(device.sessionId && { sessionId: device.sessionId }),
+      } : {}),
       ...(data.line ? { line: data.line } : {}),
       ...(data.data ? { data: data.data } : {}),
+      ...(typeof data.stack === 'string' ? { stack: data.stack } : {}),
+      ...(typeof data.errorName === 'string' ? { errorName: data.errorName } : {}),
+      ...(typeof data.isFatal === 'boolean' ? { isFatal: data.isFatal } : {}),
+      ...(typeof data.componentStack === 'string' ? { componentStack: data.componentStack } : {}),
+      ...(network ? { network } : {}),
+      ...(hmr ? { hmr } : {}),
     } as LogEntry;
 
     this.store.add(entry);
   }
 
+  /**
+   * Record the delivery report that came with a request (retries and
+   * logs the client had to drop) against the device that sent it.
+   */
+  private handleDelivery(device?: DeviceIdentity, report?: DeliveryReport): void {
+    if (!device?.deviceId) return;
+
+    const dropped = report?.dropped;
+    const types = Object.fromEntries(
+      Object.entries(dropped?.types ?? {}).filter(([, count]) => typeof count === 'number')
+    );
+
+    this.store.recordDelivery(String(device.deviceId), {
+      attempt: typeof report?.attempt === 'number' ? report.attempt : undefined,
+      dropped: typeof dropped?.count === 'number' ? { count: dropped.count, types } : undefined,
+    });
+  }
+
   private parseLogType(type?: string): LogType {
     switch (type?.toLowerCase()) {
       case 'error':
@@ -148,7 +480,19 @@ export class RuntimeServer {
     return this.port;
   }
 
+  /**
+   * Build log entries the plugin sent over HTTP, and when it last did.
+   */
+  get buildLogs(): { received: number; lastReceivedAt?: string } {
+    return { received: this.buildLogsReceived, lastReceivedAt: this.lastBuildLogAt };
+  }
+
   async stop(): Promise<void> {
+    // Open streams would keep the server from closing
+    for (const subscriber of this.subscribers) {
+      subscriber.close();
+    }
+
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => resolve());
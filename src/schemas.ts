@@ -0,0 +1,469 @@
+import { z } from 'zod';
+
+const formatOption = z.enum(['text', 'json'])
+  .optional()
+  .describe('Text content as formatted text (default) or as the structured result in JSON');
+
+/** Input options shared by tools that return entries, builds or error groups */
+export const outputOptionsInput = {
+  verbosity: z.enum(['compact', 'normal', 'full'])
+    .optional()
+    .describe('compact: no stacks or data; normal (default): stacks and data truncated; full: everything'),
+  maxChars: z.number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Character budget for the response (default: 20000); items beyond it are listed by ID'),
+  format: formatOption,
+};
+
+/** Input option for tools that return a fixed-size result */
+export const formatInput = {
+  format: formatOption,
+};
+
+/**
+ * Output schemas of the MCP tools. Each tool returns `structuredContent`
+ * matching one of these, next to its text content.
+ */
+
+export const errorCategorySchema = z.enum([
+  'missing-module',
+  'syntax-error',
+  'loader-error',
+  'asset-not-found',
+  'duplicate-module',
+]);
+
+const sourceLocationSchema = z.object({
+  line: z.number(),
+  column: z.number().optional(),
+  endLine: z.number().optional(),
+  endColumn: z.number().optional(),
+});
+
+export const entryViewSchema = z.object({
+  /** Pass to get_log_entries to fetch the entry in full */
+  id: z.number().optional(),
+  timestamp: z.string(),
+  type: z.string(),
+  platform: z.string().optional(),
+  source: z.string().optional(),
+  issuer: z.string().optional(),
+  buildId: z.string().optional(),
+  deviceId: z.string().optional(),
+  deviceName: z.string().optional(),
+  sessionId: z.string().optional(),
+  message: z.string(),
+  file: z.string().optional(),
+  /** Position of a build error or warning in `file` */
+  loc: sourceLocationSchema.optional(),
+  request: z.string().optional(),
+  loader: z.string().optional(),
+  duration: z.number().optional(),
+  fingerprint: z.string().optional(),
+  /** Occurrences of the entry's error group, when more than one */
+  occurrences: z.number().optional(),
+  errorName: z.string().optional(),
+  /** Kind and extracted details of a recognized bundler error */
+  classification: z.object({
+    category: errorCategorySchema,
+    request: z.string().optional(),
+    context: z.string().optional(),
+    file: z.string().optional(),
+    line: z.number().optional(),
+    column: z.number().optional(),
+    loader: z.string().optional(),
+    asset: z.string().optional(),
+    modules: z.array(z.string()).optional(),
+    reason: z.string().optional(),
+  }).optional(),
+  /** The app crashed on this error */
+  isFatal: z.boolean().optional(),
+  stack: z.string().optional(),
+  componentStack: z.string().optional(),
+  /** Set on network entries */
+  network: z.object({
+    method: z.string(),
+    url: z.string(),
+    status: z.number().optional(),
+    duration: z.number(),
+    requestSize: z.number().optional(),
+    responseSize: z.number().optional(),
+    requestHeaders: z.record(z.string()).optional(),
+    responseHeaders: z.record(z.string()).optional(),
+    requestBody: z.string().optional(),
+    responseBody: z.string().optional(),
+    error: z.string().optional(),
+  }).optional(),
+  /** The stack was mapped back to original sources */
+  symbolicated: z.boolean().optional(),
+  data: z.unknown().optional(),
+  /** Fields that were shortened or left out to fit the verbosity or budget */
+  truncated: z.array(z.string()).optional(),
+});
+
+export const buildViewSchema = z.object({
+  id: z.string(),
+  platform: z.string().optional(),
+  source: z.string().optional(),
+  hash: z.string().optional(),
+  status: z.enum(['building', 'success', 'failed']),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  duration: z.number().optional(),
+  errorCount: z.number(),
+  warningCount: z.number(),
+  changedFiles: z.array(z.string()).optional(),
+  sourceMaps: z.array(z.object({
+    bundle: z.string(),
+    path: z.string(),
+    url: z.string().optional(),
+    context: z.string(),
+  })).optional(),
+  truncated: z.array(z.string()).optional(),
+});
+
+export const errorGroupViewSchema = z.object({
+  fingerprint: z.string(),
+  type: z.string(),
+  lastMessage: z.string(),
+  normalizedMessage: z.string().optional(),
+  file: z.string().optional(),
+  topFrame: z.string().optional(),
+  count: z.number(),
+  firstSeen: z.string().optional(),
+  lastSeen: z.string(),
+  tags: z.array(z.string()).optional(),
+  builds: z.array(z.string()).optional(),
+  platforms: z.array(z.string()).optional(),
+  sources: z.array(z.string()).optional(),
+  truncated: z.array(z.string()).optional(),
+});
+
+/** Items left out of a response to stay within its character budget */
+export const omittedSchema = z.object({
+  count: z.number(),
+  /** Entry IDs, build IDs or fingerprints of the omitted items (first 100) */
+  ids: z.array(z.union([z.number(), z.string()])),
+});
+
+export type EntryView = z.infer<typeof entryViewSchema>;
+export type BuildView = z.infer<typeof buildViewSchema>;
+export type ErrorGroupView = z.infer<typeof errorGroupViewSchema>;
+export type Omitted = z.infer<typeof omittedSchema>;
+
+/** Pass as `before` to get the next, older page */
+const nextCursor = z.union([z.number(), z.string()]).nullable().optional();
+
+export const logsOutput = {
+  count: z.number(),
+  entries: z.array(entryViewSchema),
+  omitted: omittedSchema.optional(),
+  nextCursor,
+};
+
+export const errorsOutput = {
+  errorCount: z.number(),
+  warningCount: z.number(),
+  entries: z.array(entryViewSchema),
+  omitted: omittedSchema.optional(),
+  nextCursor,
+};
+
+export const errorGroupsOutput = {
+  /** The requested group, when a fingerprint was given */
+  group: errorGroupViewSchema.optional(),
+  groups: z.array(errorGroupViewSchema),
+  occurrences: z.array(entryViewSchema),
+  omitted: omittedSchema.optional(),
+};
+
+export const buildsOutput = {
+  builds: z.array(buildViewSchema),
+  omitted: omittedSchema.optional(),
+  nextCursor,
+};
+
+export const buildOutput = {
+  build: buildViewSchema.nullable(),
+  entries: z.array(entryViewSchema),
+  omitted: omittedSchema.optional(),
+};
+
+/** A build still compiling, with an estimate of when it will finish */
+export const currentBuildSchema = z.object({
+  id: z.string(),
+  platform: z.string().optional(),
+  source: z.string().optional(),
+  startedAt: z.string(),
+  /** ms since the build started */
+  elapsed: z.number(),
+  progress: z.object({
+    percentage: z.number(),
+    phase: z.enum(['building', 'sealing', 'emitting']),
+    modulesBuilt: z.number(),
+    modulesTotal: z.number(),
+  }).optional(),
+  progressAt: z.string().optional(),
+  /** Typical duration of recent builds of the same kind (initial or rebuild), in ms */
+  expectedDuration: z.number().optional(),
+  /** Estimated ms left, from recent build durations or else the progress so far */
+  estimatedRemaining: z.number().optional(),
+});
+
+export type CurrentBuild = z.infer<typeof currentBuildSchema>;
+
+export const waitForBuildOutput = {
+  timedOut: z.boolean(),
+  /** On timeout: the matching build still compiling, if any */
+  inProgress: currentBuildSchema.optional(),
+  build: buildViewSchema.optional(),
+  previous: buildViewSchema.optional(),
+  newErrors: z.array(errorGroupViewSchema),
+  resolvedErrors: z.array(errorGroupViewSchema),
+};
+
+export const waitForLogOutput = {
+  timedOut: z.boolean(),
+  entry: entryViewSchema.optional(),
+};
+
+const deliverySchema = z.object({
+  batches: z.number(),
+  /** Batches that arrived only after failed attempts */
+  retriedBatches: z.number(),
+  /** Logs the client dropped because its buffer was full */
+  droppedCount: z.number(),
+  droppedByType: z.record(z.number()),
+  lastBatchAt: z.string().optional(),
+  lastRetryAt: z.string().optional(),
+  lastDropAt: z.string().optional(),
+});
+
+export const slowModulesOutput = {
+  /** Builds with module timings the report covers, most recent first */
+  builds: z.array(z.string()),
+  modules: z.array(z.object({
+    module: z.string(),
+    loaders: z.array(z.string()),
+    /** Builds in the window that built the module */
+    builds: z.number(),
+    averageDuration: z.number(),
+    maxDuration: z.number(),
+    /** Time in the most recent build, if it built the module */
+    latestDuration: z.number().optional(),
+  })),
+  loaders: z.array(z.object({
+    loader: z.string(),
+    /** Average per build in the window */
+    averageDuration: z.number(),
+    /** Average time per module it was applied to */
+    averagePerModule: z.number(),
+    latestDuration: z.number().optional(),
+  })),
+  /** Modules and loaders much slower in the latest build than in earlier ones */
+  regressions: z.array(z.object({
+    kind: z.enum(['module', 'loader']),
+    name: z.string(),
+    latestDuration: z.number(),
+    previousAverage: z.number(),
+    /** latestDuration / previousAverage */
+    ratio: z.number(),
+  })),
+};
+
+export type SlowModulesReport = z.infer<z.ZodObject<typeof slowModulesOutput>>;
+
+const sizeSchema = z.object({ name: z.string(), size: z.number() });
+const sizeChangeSchema = z.object({
+  name: z.string(),
+  size: z.number(),
+  previousSize: z.number(),
+  delta: z.number(),
+});
+
+export const bundleReportOutput = {
+  build: z.object({
+    id: z.string(),
+    platform: z.string().optional(),
+    source: z.string().optional(),
+    totalSize: z.number(),
+    moduleCount: z.number(),
+    assets: z.array(sizeSchema),
+    chunks: z.array(z.object({ name: z.string(), size: z.number(), files: z.array(z.string()) })),
+    /** Largest modules */
+    modules: z.array(sizeSchema),
+  }).nullable(),
+  comparedTo: z.object({
+    id: z.string(),
+    kind: z.enum(['previous', 'baseline']),
+    totalSize: z.number(),
+  }).nullable(),
+  /** The build was saved as its platform's baseline */
+  baselineSaved: z.boolean().optional(),
+  totalDelta: z.number().optional(),
+  /** Assets that changed size, appeared (previousSize 0) or disappeared (size 0) */
+  assetChanges: z.array(sizeChangeSchema),
+  /** Module changes, largest first; modules too small to be recorded are not compared */
+  addedModules: z.array(sizeSchema),
+  removedModules: z.array(sizeSchema),
+  grownModules: z.array(sizeChangeSchema),
+};
+
+export type BundleReportResult = z.infer<z.ZodObject<typeof bundleReportOutput>>;
+
+export const errorContextOutput = {
+  entry: entryViewSchema.nullable(),
+  location: sourceLocationSchema.extend({ path: z.string() }).nullable(),
+  frame: z.array(z.object({ line: z.number(), text: z.string() })),
+  /** The file was modified after the build started, so it may differ from what the bundler saw */
+  fileChanged: z.boolean(),
+  modifiedAt: z.string().optional(),
+  /** Why the file could not be read */
+  error: z.string().optional(),
+};
+
+export type ErrorContextView = z.infer<z.ZodObject<typeof errorContextOutput>>;
+
+const hmrOutcomeSchema = z.object({
+  deviceId: z.string(),
+  deviceName: z.string().optional(),
+  /**
+   * applied: hot update applied; reloaded: the app reloaded onto the build;
+   * failed: hot update failed or aborted; skipped: the device moved on to a
+   * later build; pending: nothing reported yet
+   */
+  outcome: z.enum(['applied', 'reloaded', 'failed', 'skipped', 'pending']),
+  at: z.string().optional(),
+});
+
+export const hmrHistoryOutput = {
+  /** Hot updates, most recent first */
+  updates: z.array(z.object({
+    buildId: z.string(),
+    platform: z.string().optional(),
+    source: z.string().optional(),
+    hash: z.string().optional(),
+    previousHash: z.string(),
+    finishedAt: z.string().optional(),
+    changedFiles: z.array(z.string()),
+    updatedModules: z.array(z.string()),
+    removedModules: z.array(z.string()),
+    updatedChunks: z.array(z.string()),
+    removedChunks: z.array(z.string()),
+    devices: z.array(hmrOutcomeSchema),
+  })),
+  /** Devices that reported hot reloading events, with the code they last ran */
+  devices: z.array(z.object({
+    deviceId: z.string(),
+    deviceName: z.string().optional(),
+    platform: z.string().optional(),
+    hash: z.string().optional(),
+    lastEvent: z.enum(['load', 'applied', 'failed', 'reload']),
+    lastEventAt: z.string(),
+    /**
+     * The device runs the latest successful build of its platform and
+     * source; null when the device or the builds report no hash
+     */
+    upToDate: z.boolean().nullable(),
+  })),
+};
+
+export type HmrHistory = z.infer<z.ZodObject<typeof hmrHistoryOutput>>;
+
+export const devicesOutput = {
+  devices: z.array(z.object({
+    deviceId: z.string(),
+    deviceName: z.string().optional(),
+    platform: z.string().optional(),
+    osVersion: z.string().optional(),
+    appVersion: z.string().optional(),
+    firstSeen: z.string(),
+    lastSeen: z.string(),
+    logCount: z.number(),
+    sessions: z.array(z.object({
+      sessionId: z.string(),
+      appVersion: z.string().optional(),
+      startedAt: z.string(),
+      lastSeen: z.string(),
+      logCount: z.number(),
+    })),
+    delivery: deliverySchema,
+  })),
+};
+
+export const entriesOutput = {
+  entries: z.array(entryViewSchema),
+  /** Requested IDs no longer in memory */
+  missing: z.array(z.number()),
+  omitted: omittedSchema.optional(),
+};
+
+export const clearOutput = {
+  cleared: z.number(),
+};
+
+export const statusOutput = {
+  watcher: z.object({
+    watching: z.boolean(),
+    /** Log file paths and globs, as configured */
+    patterns: z.array(z.string()),
+    /** Each log file being read */
+    files: z.array(z.object({
+      source: z.string().optional(),
+      filePath: z.string(),
+      fileExists: z.boolean(),
+      /** Lines of the log file that were not valid log entries */
+      parseFailures: z.number(),
+      lastParseFailure: z.object({ error: z.string(), line: z.string(), at: z.string() }).optional(),
+    })),
+  }),
+  history: z.object({
+    persistent: z.boolean(),
+    directory: z.string().optional(),
+  }),
+  runtimeServer: z.object({
+    port: z.number(),
+    url: z.string(),
+    /** Build logs received from the plugin's `http` transport */
+    buildLogsReceived: z.number().optional(),
+    lastBuildLogAt: z.string().optional(),
+  }),
+  stats: z.object({
+    logCount: z.number(),
+    buildLogCount: z.number(),
+    runtimeLogCount: z.number(),
+    errorCount: z.number(),
+    warningCount: z.number(),
+    lastUpdate: z.string().nullable(),
+  }),
+  platforms: z.array(z.object({
+    platform: z.string(),
+    buildLogCount: z.number(),
+    runtimeLogCount: z.number(),
+    errorCount: z.number(),
+    warningCount: z.number(),
+    latestBuild: z.object({ id: z.string(), status: z.string() }).nullable(),
+  })),
+  /** Build logs per log source */
+  sources: z.array(z.object({
+    source: z.string(),
+    buildLogCount: z.number(),
+    errorCount: z.number(),
+    warningCount: z.number(),
+    latestBuild: z.object({ id: z.string(), status: z.string() }).nullable(),
+  })),
+  currentBuilds: z.array(currentBuildSchema),
+  devices: z.array(z.object({
+    deviceId: z.string(),
+    deviceName: z.string().optional(),
+    platform: z.string().optional(),
+    lastSeen: z.string(),
+    /** dropping / retrying: the client dropped or retried logs in the last 5 minutes */
+    health: z.enum(['healthy', 'retrying', 'dropping']),
+    delivery: deliverySchema,
+  })),
+};
+
+export type StatusReport = z.infer<z.ZodObject<typeof statusOutput>>;
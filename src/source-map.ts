@@ -0,0 +1,178 @@
+import path from 'node:path';
+
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  names?: string[];
+  sourceRoot?: string;
+  mappings: string;
+}
+
+export interface OriginalPosition {
+  source: string;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+  name?: string;
+}
+
+const BASE64_VALUES = new Int8Array(128).fill(-1);
+'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+  .split('')
+  .forEach((char, index) => { BASE64_VALUES[char.charCodeAt(0)] = index; });
+
+const SEMICOLON = ';'.charCodeAt(0);
+const COMMA = ','.charCodeAt(0);
+
+/**
+ * Decode one mapping segment starting at `pos`.
+ * Writes the field count to `out[0]` and the fields to `out[1..5]`,
+ * and returns the position after the segment.
+ */
+function readSegment(mappings: string, pos: number, out: Int32Array): number {
+  let count = 0;
+
+  while (pos < mappings.length) {
+    const char = mappings.charCodeAt(pos);
+    if (char === SEMICOLON || char === COMMA) break;
+
+    let value = 0;
+    let shift = 0;
+    let digit: number;
+    do {
+      digit = BASE64_VALUES[mappings.charCodeAt(pos++)];
+      if (digit === undefined || digit < 0) {
+        throw new Error(`Invalid character in source map mappings at ${pos - 1}`);
+      }
+      value += (digit & 31) << shift;
+      shift += 5;
+    } while (digit & 32);
+
+    const negative = value & 1;
+    value >>>= 1;
+    out[++count] = negative ? -value : value;
+    if (count === 5) break;
+  }
+
+  out[0] = count;
+  return pos;
+}
+
+/**
+ * Minimal source map (v3) reader.
+ *
+ * Bundles served in development come with very large maps, so the
+ * mappings are indexed once and each generated line is decoded on
+ * demand instead of materializing every segment.
+ */
+export class SourceMap {
+  private sources: string[];
+  private names: string[];
+  private mappings: string;
+  /** Offset into `mappings` where each generated line starts */
+  private lineStarts: number[] = [];
+  /** Source, original line, original column and name state at each line start */
+  private lineState: number[] = [];
+
+  constructor(raw: RawSourceMap, context: string) {
+    if (raw.version !== 3) {
+      throw new Error(`Unsupported source map version: ${raw.version}`);
+    }
+
+    this.sources = raw.sources.map(source => normalizeSource(source, raw.sourceRoot, context));
+    this.names = raw.names ?? [];
+    this.mappings = raw.mappings;
+    this.index();
+  }
+
+  private index(): void {
+    const segment = new Int32Array(6);
+    const state = [0, 0, 0, 0];
+    let pos = 0;
+
+    this.lineStarts.push(0);
+    this.lineState.push(...state);
+
+    while (pos < this.mappings.length) {
+      const char = this.mappings.charCodeAt(pos);
+      if (char === SEMICOLON) {
+        pos++;
+        this.lineStarts.push(pos);
+        this.lineState.push(...state);
+        continue;
+      }
+      if (char === COMMA) {
+        pos++;
+        continue;
+      }
+
+      pos = readSegment(this.mappings, pos, segment);
+      for (let field = 2; field <= segment[0]; field++) {
+        state[field - 2] += segment[field];
+      }
+    }
+  }
+
+  /**
+   * Find the original position for a 1-based generated line and column.
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const lineIndex = line - 1;
+    if (lineIndex < 0 || lineIndex >= this.lineStarts.length) return null;
+
+    const segment = new Int32Array(6);
+    const state = this.lineState.slice(lineIndex * 4, lineIndex * 4 + 4);
+    const targetColumn = column - 1;
+    let generatedColumn = 0;
+    let match: OriginalPosition | null = null;
+    let pos = this.lineStarts[lineIndex];
+
+    while (pos < this.mappings.length) {
+      const char = this.mappings.charCodeAt(pos);
+      if (char === SEMICOLON) break;
+      if (char === COMMA) {
+        pos++;
+        continue;
+      }
+
+      pos = readSegment(this.mappings, pos, segment);
+      generatedColumn += segment[1];
+      if (generatedColumn > targetColumn) break;
+
+      for (let field = 2; field <= segment[0]; field++) {
+        state[field - 2] += segment[field];
+      }
+      if (segment[0] >= 4) {
+        match = {
+          source: this.sources[state[0]],
+          line: state[1] + 1,
+          column: state[2] + 1,
+          ...(segment[0] === 5 && this.names[state[3]] && { name: this.names[state[3]] }),
+        };
+      } else {
+        // Segment without a source: this column maps to nothing
+        match = null;
+      }
+    }
+
+    return match;
+  }
+}
+
+/**
+ * Turn a bundler source path (e.g. `webpack://MyApp/./src/App.tsx`)
+ * into a file path on disk.
+ */
+function normalizeSource(source: string, sourceRoot: string | undefined, context: string): string {
+  let result = sourceRoot && !/^[a-z]+:/i.test(source)
+    ? `${sourceRoot.replace(/\/$/, '')}/${source}`
+    : source;
+
+  result = result.replace(/^webpack:\/\/[^/]*\//, '');
+
+  if (result.startsWith('./') || result.startsWith('../')) {
+    return path.resolve(context, result);
+  }
+  return result;
+}
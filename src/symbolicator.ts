@@ -0,0 +1,198 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { SourceMap, type RawSourceMap } from './source-map.js';
+import type { LogStore } from './log-store.js';
+import type { LogEntry, SourceMapInfo } from './types.js';
+
+export interface StackFrame {
+  functionName?: string;
+  /** File path or bundle URL */
+  file: string;
+  line: number;
+  column: number;
+  /** Original line from the stack string */
+  raw: string;
+}
+
+export interface SymbolicatedFrame extends StackFrame {
+  /** Whether the position was mapped back to an original source */
+  symbolicated: boolean;
+  /** Whether the frame comes from a dependency */
+  isNodeModule: boolean;
+}
+
+/** The dev server holds map requests while compiling; stacks stay unmapped meanwhile */
+const SOURCE_MAP_TIMEOUT_MS = 3000;
+
+// V8 and Hermes: "at fn (file:1:2)", "at file:1:2", "at fn (address at file:1:2)"
+const V8_FRAME = /^\s*at (?:(.+?) \()?(?:address at )?(.+?):(\d+):(\d+)\)?$/;
+// JSC: "fn@file:1:2", "file:1:2"
+const JSC_FRAME = /^\s*(?:([^@]*)@)?(\S+?):(\d+):(\d+)$/;
+
+/**
+ * Parse a Hermes, JSC or V8 stack string into frames.
+ * Lines without a position (messages, native frames) are skipped.
+ */
+export function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const raw of stack.split('\n')) {
+    const match = raw.match(V8_FRAME) ?? raw.match(JSC_FRAME);
+    if (!match) continue;
+
+    const functionName = match[1]?.trim();
+    frames.push({
+      ...(functionName && functionName !== 'anonymous' && { functionName }),
+      file: match[2],
+      line: parseInt(match[3], 10),
+      column: parseInt(match[4], 10),
+      raw: raw.trim(),
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Find the stack string of an entry: either its own `stack` or that
+ * of an error serialized into `data` by the client.
+ */
+export function getEntryStack(entry: LogEntry): string | undefined {
+  if (typeof entry.stack === 'string') return entry.stack;
+
+  const candidates = Array.isArray(entry.data) ? entry.data : [entry.data];
+  for (const candidate of candidates) {
+    if (candidate && typeof candidate === 'object' && typeof (candidate as { stack?: unknown }).stack === 'string') {
+      return (candidate as { stack: string }).stack;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Format frames with app frames first and dependency frames collapsed.
+ */
+export function formatFrames(frames: SymbolicatedFrame[], indent = '    '): string {
+  const appFrames = frames.filter(frame => !frame.isNodeModule);
+  const hidden = frames.length - appFrames.length;
+
+  const lines = appFrames.map(frame =>
+    `${indent}at ${frame.functionName ?? '<anonymous>'} (${frame.file}:${frame.line}:${frame.column})`
+  );
+  if (hidden > 0) {
+    lines.push(`${indent}... ${hidden} node_modules frame(s) hidden`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Maps runtime stack traces back to original sources using the
+ * source maps recorded by RepackLogsPlugin for the latest build.
+ */
+export class Symbolicator {
+  private store: LogStore;
+  /** Parsed maps, keyed by the build's SourceMapInfo so new builds reload */
+  private maps = new WeakMap<SourceMapInfo, Promise<SourceMap | null>>();
+
+  constructor(store: LogStore) {
+    this.store = store;
+  }
+
+  /**
+   * Symbolicate a stack string. Returns null when nothing in it
+   * could be mapped, so callers can fall back to the raw stack.
+   */
+  async symbolicate(stack: string, platform?: string): Promise<SymbolicatedFrame[] | null> {
+    const frames = parseStack(stack);
+    if (frames.length === 0) return null;
+
+    let mapped = 0;
+    const result = await Promise.all(frames.map(async (frame): Promise<SymbolicatedFrame> => {
+      const map = await this.findMap(frame.file, platform);
+      const original = map?.originalPositionFor(frame.line, frame.column);
+
+      if (!original) {
+        return { ...frame, symbolicated: false, isNodeModule: isNodeModule(frame.file) };
+      }
+
+      mapped++;
+      return {
+        functionName: original.name ?? frame.functionName,
+        file: original.source,
+        line: original.line,
+        column: original.column,
+        raw: frame.raw,
+        symbolicated: true,
+        isNodeModule: isNodeModule(original.source),
+      };
+    }));
+
+    return mapped > 0 ? result : null;
+  }
+
+  /**
+   * Symbolicate the stack of a log entry, if it has one.
+   */
+  async symbolicateEntry(entry: LogEntry): Promise<SymbolicatedFrame[] | null> {
+    const stack = getEntryStack(entry);
+    if (!stack) return null;
+    return this.symbolicate(stack, entry.platform);
+  }
+
+  private async findMap(file: string, platform?: string): Promise<SourceMap | null> {
+    let bundle: string;
+    let urlPlatform: string | null = null;
+    try {
+      const url = new URL(file);
+      bundle = url.pathname.split('/').pop() ?? '';
+      urlPlatform = url.searchParams.get('platform');
+    } catch {
+      bundle = file.split(/[\\/]/).pop() ?? '';
+    }
+
+    const targetPlatform = urlPlatform ?? platform;
+    const sourceMaps = this.store.getSourceMaps(targetPlatform);
+    const info = sourceMaps.find(map => map.bundle === bundle)
+      ?? (targetPlatform
+        ? sourceMaps.find(map => map.bundle === bundle.replace(`.${targetPlatform}.`, '.'))
+        : undefined);
+    if (!info) return null;
+
+    let map = this.maps.get(info);
+    if (!map) {
+      map = loadSourceMap(info);
+      this.maps.set(info, map);
+      // A map that failed to load is tried again next time, e.g. after a compile
+      map.then(loaded => {
+        if (!loaded) this.maps.delete(info);
+      });
+    }
+    return map;
+  }
+}
+
+function isNodeModule(file: string): boolean {
+  return /[\\/]node_modules[\\/]/.test(file) || file.startsWith('node_modules/');
+}
+
+/**
+ * Read a source map from the output directory, falling back to the dev server.
+ */
+async function loadSourceMap(info: SourceMapInfo): Promise<SourceMap | null> {
+  try {
+    let raw: RawSourceMap;
+    if (existsSync(info.path)) {
+      raw = JSON.parse(await readFile(info.path, 'utf-8'));
+    } else if (info.url) {
+      const response = await fetch(info.url, { signal: AbortSignal.timeout(SOURCE_MAP_TIMEOUT_MS) });
+      if (!response.ok) return null;
+      raw = await response.json() as RawSourceMap;
+    } else {
+      return null;
+    }
+    return new SourceMap(raw, info.context);
+  } catch {
+    // Map unavailable or malformed - leave frames as they are
+    return null;
+  }
+}
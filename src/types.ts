@@ -3,6 +3,8 @@
  * Re.Pack outputs JSON lines with webpack compilation info.
  */
 export interface LogEntry {
+  /** Sequence number assigned by the LogStore, for follow-up lookups */
+  id?: number;
   timestamp: string;
   type: LogType;
   issuer?: string;
@@ -11,12 +13,49 @@ export interface LogEntry {
   request?: string;
   /** File path being processed */
   file?: string;
+  /** Absolute path of the source file of a build error or warning */
+  filePath?: string;
+  /** Position of a build error or warning in its source file */
+  loc?: SourceLocation;
   /** Webpack loader info */
   loader?: string;
   /** Error stack trace */
   stack?: string;
   /** Build duration in ms */
   duration?: number;
+  /** ID of the compilation this entry belongs to */
+  buildId?: string;
+  /** Compilation hash (known once the compilation is done) */
+  hash?: string;
+  /** Target platform (e.g. 'ios', 'android') */
+  platform?: string;
+  /** Label of the log source a build log was read from, when several are watched */
+  source?: string;
+  /** Marks the entries that open and close a compilation */
+  buildEvent?: BuildEvent;
+  /** Set on the plugin's periodic progress entries */
+  progress?: BuildProgress;
+  /** Error group key, set by the LogStore for errors and warnings */
+  fingerprint?: string;
+  /** Kind and details of a recognized bundler error, set by the LogStore */
+  classification?: ErrorClassification;
+  /** Stable ID of the device that sent a runtime log */
+  deviceId?: string;
+  deviceName?: string;
+  osVersion?: string;
+  appVersion?: string;
+  /** ID of the app launch that sent a runtime log */
+  sessionId?: string;
+  /** Name of a runtime error reported by the client (e.g. TypeError) */
+  errorName?: string;
+  /** The error reached the app's global handler as fatal (a crash) */
+  isFatal?: boolean;
+  /** React component stack of an error caught by an error boundary */
+  componentStack?: string;
+  /** Set on network entries: an HTTP request made by the app */
+  network?: NetworkRequest;
+  /** Set on hot update and reload events reported by the app */
+  hmr?: HmrEvent;
   /** Additional metadata */
   [key: string]: unknown;
 }
@@ -29,19 +68,349 @@ export type LogType =
   | 'success'
   | 'progress';
 
+export type BuildEvent = 'start' | 'done';
+
+/**
+ * A position or range in a source file, from the `loc` of an Rspack
+ * diagnostic. Lines and columns are 1-based.
+ */
+export interface SourceLocation {
+  line: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export type ErrorCategory =
+  | 'missing-module'
+  | 'syntax-error'
+  | 'loader-error'
+  | 'asset-not-found'
+  | 'duplicate-module';
+
+/**
+ * A build error or warning recognized by classifyError(), with the
+ * fields its category carries.
+ */
+export interface ErrorClassification {
+  category: ErrorCategory;
+  /** Request that could not be resolved */
+  request?: string;
+  /** Directory the request was resolved from */
+  context?: string;
+  file?: string;
+  line?: number;
+  /** 1-based */
+  column?: number;
+  /** Loader name, e.g. babel-loader or builtin:swc-loader */
+  loader?: string;
+  asset?: string;
+  /** Conflicting module paths */
+  modules?: string[];
+  /** The underlying error message, when it is more specific than the category */
+  reason?: string;
+}
+
+/**
+ * Location of an emitted bundle's source map, recorded by the plugin.
+ */
+export interface SourceMapInfo {
+  /** Bundle asset the map belongs to (e.g. 'index.bundle') */
+  bundle: string;
+  /** Absolute path of the map in the compiler's output directory */
+  path: string;
+  /** Dev server URL of the map, for when bundles are served from memory */
+  url?: string;
+  /** Compiler context that relative source paths resolve against */
+  context: string;
+}
+
+export type BuildStatus = 'building' | 'success' | 'failed';
+
+export type BuildPhase = 'building' | 'sealing' | 'emitting';
+
+/**
+ * How far a compilation has come, reported periodically by the plugin.
+ */
+export interface BuildProgress {
+  /** 0-100 */
+  percentage: number;
+  phase: BuildPhase;
+  /** Modules built so far */
+  modulesBuilt: number;
+  /** Modules discovered so far; grows while the build runs */
+  modulesTotal: number;
+}
+
+/**
+ * A single compilation as seen through the plugin's log entries.
+ */
+export interface BuildRecord {
+  id: string;
+  platform?: string;
+  /** Log source the build was read from */
+  source?: string;
+  hash?: string;
+  status: BuildStatus;
+  startedAt: string;
+  finishedAt?: string;
+  /** Build duration in ms */
+  duration?: number;
+  errorCount: number;
+  warningCount: number;
+  /** Files reported by the watcher's `invalid` hook before this build */
+  changedFiles: string[];
+  /** Source maps emitted by this build */
+  sourceMaps?: SourceMapInfo[];
+  /** Per-module and per-loader build times, when the plugin's `moduleTimings` is on */
+  timings?: BuildTimings;
+  /** Asset, chunk and module sizes (kept for the most recent builds only) */
+  bundle?: BundleReport;
+  /** Hot update manifest, when the build was a hot update */
+  hotUpdate?: HotUpdate;
+  /** Latest progress of a running build */
+  progress?: BuildProgress;
+  /** When the latest progress was reported */
+  progressAt?: string;
+}
+
+/**
+ * Output sizes of a compilation, recorded by the plugin. Sizes are in bytes.
+ */
+export interface BundleReport {
+  /** Sum of the emitted assets, source maps excluded */
+  totalSize: number;
+  assets: Array<{ name: string; size: number }>;
+  chunks: Array<{ name: string; size: number; files: string[] }>;
+  moduleCount: number;
+  /** Largest first, capped by the plugin: smaller modules are left out */
+  modules: Array<{ name: string; size: number }>;
+}
+
+/**
+ * Time spent building one module in a compilation.
+ */
+export interface ModuleTiming {
+  /** Resource path relative to the project, or the module identifier */
+  module: string;
+  /** Loaders applied to the module, first to run last (as configured) */
+  loaders: string[];
+  /** Milliseconds from build start to success */
+  duration: number;
+}
+
+export interface LoaderTiming {
+  loader: string;
+  /** Summed build time of the modules the loader was applied to */
+  duration: number;
+  modules: number;
+}
+
+/**
+ * Module build times of a compilation, recorded by the plugin. Modules
+ * build in parallel, so `totalDuration` can exceed the build's duration.
+ * Rebuilds only include the modules they had to build again.
+ */
+export interface BuildTimings {
+  moduleCount: number;
+  totalDuration: number;
+  /** Slowest first, capped by the plugin */
+  modules: ModuleTiming[];
+  /** Slowest first */
+  loaders: LoaderTiming[];
+}
+
+/**
+ * Occurrences of the same error or warning, grouped by fingerprint.
+ */
+export interface ErrorGroup {
+  fingerprint: string;
+  type: LogType;
+  /** Message with numbers, IDs and addresses stripped */
+  normalizedMessage: string;
+  /** Message of the most recent occurrence */
+  lastMessage: string;
+  file?: string;
+  /** Top app stack frame as "function@file" */
+  topFrame?: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  /** Issuers (runtime tags or build sources) that reported this error */
+  tags: string[];
+  /** Builds during which this error occurred */
+  builds: string[];
+  platforms: string[];
+  /** Log sources whose builds reported this error */
+  sources: string[];
+}
+
+export type ErrorGroupSort = 'frequency' | 'recency';
+
+/**
+ * Identity a client app reports with its runtime logs.
+ */
+export interface DeviceIdentity {
+  deviceId: string;
+  deviceName?: string;
+  platform?: string;
+  osVersion?: string;
+  appVersion?: string;
+  /** New for every launch of the app's JS runtime */
+  sessionId?: string;
+}
+
+/**
+ * One launch of the app on a device.
+ */
+export interface DeviceSession {
+  sessionId: string;
+  appVersion?: string;
+  startedAt: string;
+  lastSeen: string;
+  logCount: number;
+}
+
+/**
+ * A hot update emitted by a rebuild, from its `.hot-update.json` manifests.
+ */
+export interface HotUpdate {
+  /** Hash of the compilation the update applies on top of */
+  previousHash: string;
+  /** Modules rebuilt for the update */
+  updatedModules: string[];
+  removedModules: string[];
+  updatedChunks: string[];
+  removedChunks: string[];
+}
+
+/**
+ * What happened to the app's code, as reported by the client:
+ * it loaded a bundle (launch or full reload), applied or failed a hot
+ * update, or is about to reload.
+ */
+export interface HmrEvent {
+  event: 'load' | 'applied' | 'failed' | 'reload';
+  /** Compilation hash of the code the app runs after the event */
+  hash?: string;
+  /** Hash before a hot update */
+  previousHash?: string;
+  /** HMR status that ended a failed update: 'fail' or 'abort' */
+  status?: string;
+  /** Reason passed to DevSettings.reload() */
+  reason?: string;
+}
+
+/**
+ * An HTTP request captured by the client's fetch/XMLHttpRequest interceptor.
+ * Header values are redacted by the client unless allowed.
+ */
+export interface NetworkRequest {
+  method: string;
+  url: string;
+  /** Missing when no response arrived */
+  status?: number;
+  /** Milliseconds from sending to the end of the response */
+  duration: number;
+  requestSize?: number;
+  responseSize?: number;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  /** Cut to the client's body limit */
+  requestBody?: string;
+  responseBody?: string;
+  /** Network error, timeout or abort */
+  error?: string;
+}
+
+/**
+ * What the client reports about its own delivery with each batch.
+ */
+export interface DeliveryReport {
+  /** 1 on the first try, higher when earlier attempts failed */
+  attempt?: number;
+  /** Logs dropped from the client's full buffer since its last delivered batch */
+  dropped?: {
+    count: number;
+    types?: Partial<Record<LogType, number>>;
+  };
+}
+
+/**
+ * How reliably a device's logs reach the server.
+ */
+export interface DeliveryHealth {
+  batches: number;
+  /** Batches that arrived only after failed attempts */
+  retriedBatches: number;
+  droppedCount: number;
+  droppedByType: Partial<Record<LogType, number>>;
+  lastBatchAt?: string;
+  lastRetryAt?: string;
+  lastDropAt?: string;
+}
+
+/**
+ * A device that has sent runtime logs, as seen through its entries.
+ */
+export interface DeviceRecord {
+  deviceId: string;
+  deviceName?: string;
+  platform?: string;
+  osVersion?: string;
+  appVersion?: string;
+  firstSeen: string;
+  lastSeen: string;
+  logCount: number;
+  /** Most recent launch last */
+  sessions: DeviceSession[];
+  delivery: DeliveryHealth;
+}
+
+export type LogOrder = 'oldest' | 'newest';
+
 export interface LogFilter {
   /** Filter by log type(s) */
   types?: LogType[];
   /** Maximum number of logs to return */
   limit?: number;
-  /** Only logs after this timestamp (ISO string) */
+  /** Only logs after this time (ISO string or relative, e.g. "5m") */
   since?: string;
+  /** Only logs before this time (ISO string or relative, e.g. "5m") */
+  until?: string;
+  /** Query expression, see parseQuery() in query.ts */
+  query?: string;
+  /** Result order (default: oldest first) */
+  order?: LogOrder;
   /** Filter by issuer/source */
   issuer?: string;
   /** Search in message content */
   search?: string;
+  /** Only logs belonging to this build */
+  buildId?: string;
+  /** Filter by target platform */
+  platform?: string;
+  /** Filter by log source label */
+  source?: string;
+  /** Only entries with a lower ID (pagination cursor) */
+  before?: number;
+  /** Device ID, or part of a device name */
+  device?: string;
+  /** Only entries from this app launch */
+  session?: string;
+  /** Only build errors of this category */
+  category?: ErrorCategory;
 }
 
+/**
+ * How much of each entry tool responses include:
+ * compact drops stacks and data, normal truncates them, full keeps everything.
+ */
+export type Verbosity = 'compact' | 'normal' | 'full';
+
+/** Tool text content: formatted for reading, or the structured result as JSON */
+export type OutputFormat = 'text' | 'json';
+
 export interface WatcherStatus {
   watching: boolean;
   filePath: string;
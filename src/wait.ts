@@ -0,0 +1,178 @@
+import path from 'node:path';
+import { createLogMatcher, isBuildLog, type LogStore } from './log-store.js';
+import { parseTime } from './query.js';
+import type { BuildRecord, ErrorGroup, LogEntry, LogType } from './types.js';
+
+export interface WaitForBuildOptions {
+  /** Give up after this many ms */
+  timeout: number;
+  /** Only accept a build whose changed files include this path */
+  file?: string;
+  platform?: string;
+  source?: string;
+  /** Also accept builds that started after this time (ISO or relative), even if already finished */
+  since?: string;
+  /** Called when a build of the platform reports progress while waiting */
+  onProgress?: (build: BuildRecord) => void;
+  /** Stops waiting, e.g. when the tool call is cancelled */
+  signal?: AbortSignal;
+}
+
+export interface BuildOutcome {
+  build: BuildRecord;
+  /** The previous finished build for the same source and platform */
+  previous?: BuildRecord;
+  /** Error groups seen in this build but not in the previous one */
+  newErrors: ErrorGroup[];
+  /** Error groups seen in the previous build but not in this one */
+  resolvedErrors: ErrorGroup[];
+}
+
+export interface WaitForLogOptions {
+  timeout: number;
+  /** Regular expression matched against the message (case-insensitive) */
+  pattern?: string;
+  tag?: string;
+  types?: LogType[];
+  platform?: string;
+  /** Device ID, or part of a device name */
+  device?: string;
+  session?: string;
+  /** Also accept logs that arrived after this time (ISO or relative) */
+  since?: string;
+  /** Stops waiting, e.g. when the tool call is cancelled */
+  signal?: AbortSignal;
+}
+
+/** Case-insensitive match of a platform or source name */
+function matchesName(name: string | undefined, wanted: string | undefined): boolean {
+  return !wanted || name?.toLowerCase() === wanted.toLowerCase();
+}
+
+function includesFile(build: BuildRecord, file: string): boolean {
+  const absolute = path.resolve(file);
+  return build.changedFiles.some(changed =>
+    changed === file || changed === absolute || changed.endsWith(`/${file.replace(/^\.?\//, '')}`)
+  );
+}
+
+/**
+ * Compare a build's error groups with those of the previous build.
+ */
+export function compareWithPrevious(store: LogStore, build: BuildRecord): BuildOutcome {
+  const builds = store.getBuilds(undefined, build.platform, build.source);
+  const index = builds.findIndex(candidate => candidate.id === build.id);
+  const previous = builds.slice(index + 1).find(candidate => candidate.status !== 'building');
+
+  const groups = store.getErrorGroups();
+  const current = groups.filter(group => group.builds.includes(build.id));
+  const before = previous ? groups.filter(group => group.builds.includes(previous.id)) : [];
+
+  return {
+    build,
+    previous,
+    newErrors: current.filter(group => !before.includes(group)),
+    resolvedErrors: before.filter(group => !current.includes(group)),
+  };
+}
+
+/**
+ * Wait for the next compilation to finish (the plugin's `invalid` → `done` cycle).
+ * Builds already in progress when called count as "next". Resolves with
+ * null on timeout or when `signal` aborts. Throws QueryError on an
+ * invalid `since`.
+ */
+export function waitForBuild(store: LogStore, options: WaitForBuildOptions): Promise<BuildOutcome | null> {
+  const known = new Set(store.getBuilds().map(build => build.id));
+  const inProgress = new Set(
+    store.getBuilds().filter(build => build.status === 'building').map(build => build.id)
+  );
+  const since = options.since ? parseTime(options.since) : undefined;
+
+  const accepts = (build: BuildRecord) =>
+    build.status !== 'building'
+    && matchesName(build.platform, options.platform)
+    && matchesName(build.source, options.source)
+    && (!options.file || includesFile(build, options.file))
+    && (!known.has(build.id)
+      || inProgress.has(build.id)
+      || (since !== undefined && new Date(build.startedAt).getTime() >= since));
+
+  const finished = store.getBuilds().find(accepts);
+  if (finished) {
+    return Promise.resolve(compareWithPrevious(store, finished));
+  }
+
+  return new Promise(resolve => {
+    const onProgress = (build: BuildRecord) => {
+      if (matchesName(build.platform, options.platform) && matchesName(build.source, options.source)) {
+        options.onProgress?.(build);
+      }
+    };
+
+    const onBuild = (build: BuildRecord) => {
+      if (accepts(build)) finish(compareWithPrevious(store, build));
+    };
+
+    const onAbort = () => finish(null);
+
+    const finish = (outcome: BuildOutcome | null) => {
+      clearTimeout(timer);
+      store.off('build', onBuild);
+      store.off('progress', onProgress);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(outcome);
+    };
+
+    const timer = setTimeout(onAbort, options.timeout);
+
+    store.on('build', onBuild);
+    store.on('progress', onProgress);
+    options.signal?.addEventListener('abort', onAbort);
+    if (options.signal?.aborted) onAbort();
+  });
+}
+
+/**
+ * Wait for a runtime log matching a pattern and/or tag. Resolves with
+ * null on timeout or when `signal` aborts. Throws on an invalid pattern
+ * or `since`.
+ */
+export function waitForLog(store: LogStore, options: WaitForLogOptions): Promise<LogEntry | null> {
+  const pattern = options.pattern ? new RegExp(options.pattern, 'i') : undefined;
+  const matchesDevice = createLogMatcher({ device: options.device, session: options.session });
+
+  const accepts = (log: LogEntry) =>
+    !isBuildLog(log)
+    && (!options.tag || log.issuer === options.tag)
+    && (!options.types || options.types.length === 0 || options.types.includes(log.type))
+    && matchesName(log.platform, options.platform)
+    && matchesDevice(log)
+    && (!pattern || pattern.test(log.message));
+
+  if (options.since) {
+    const existing = store.get({ since: options.since }).reverse().find(accepts);
+    if (existing) return Promise.resolve(existing);
+  }
+
+  return new Promise(resolve => {
+    const onEntry = (log: LogEntry) => {
+      if (accepts(log)) finish(log);
+    };
+
+    const onAbort = () => finish(null);
+
+    const finish = (log: LogEntry | null) => {
+      clearTimeout(timer);
+      store.off('entry', onEntry);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(log);
+    };
+
+    const timer = setTimeout(onAbort, options.timeout);
+
+    store.on('entry', onEntry);
+    options.signal?.addEventListener('abort', onAbort);
+    if (options.signal?.aborted) onAbort();
+  });
+}
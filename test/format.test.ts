@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { fitToBudget, formatErrorContext, measureView, type OutputOptions } from '../src/format.js';
+import { outputOptionsInput, type ErrorContextView } from '../src/schemas.js';
+
+function context(location: ErrorContextView['location']): ErrorContextView {
+  return {
+    entry: null,
+    location,
+    frame: [
+      { line: 1, text: 'import { zz } from "./b";' },
+      { line: 2, text: 'console.log(zz);' },
+    ],
+    fileChanged: false,
+  };
+}
+
+describe('formatErrorContext', () => {
+  it('marks a 1-based, inclusive column range', () => {
+    const text = formatErrorContext(context({ path: '/app/index.js', line: 2, column: 13, endColumn: 14 }));
+    expect(text.split('\n')).toEqual([
+      '/app/index.js:2:13',
+      '',
+      '  1 | import { zz } from "./b";',
+      '> 2 | console.log(zz);',
+      '    |             ^^',
+    ]);
+  });
+
+  it('marks the first character at column 1', () => {
+    const text = formatErrorContext(context({ path: '/app/index.js', line: 1, column: 1 }));
+    expect(text).toContain('> 1 | import { zz } from "./b";\n    | ^\n');
+  });
+
+  it('does not pad the caret past the start of the line for column 0', () => {
+    const text = formatErrorContext(context({ path: '/app/index.js', line: 1, column: 0, endColumn: 6 }));
+    expect(text).toContain('> 1 | import { zz } from "./b";\n    | ^^^^^^^\n');
+  });
+
+  it('marks a range over several lines to the end of its first line', () => {
+    const text = formatErrorContext(context({ path: '/app/index.js', line: 1, column: 10, endLine: 2, endColumn: 3 }));
+    expect(text).toContain('> 1 | import { zz } from "./b";\n    |          ^^^^^^^^^^^^^^^^\n> 2 |');
+  });
+});
+
+describe('fitToBudget', () => {
+  const items = ['first', 'second', 'third'];
+  const render = (item: string) => ({ item });
+  const formatText = (view: { item: string }) => view.item;
+
+  it('measures views as text, or as JSON with format json', () => {
+    const text: OutputOptions = { verbosity: 'normal', maxChars: 100, format: 'text' };
+    expect(measureView({ item: 'first' }, text, formatText)).toBe(5);
+    expect(measureView({ item: 'first' }, { ...text, format: 'json' }, formatText))
+      .toBe(JSON.stringify({ item: 'first' }, null, 2).length);
+  });
+
+  it('returns one item and lists the rest when nothing fits', async () => {
+    const options: OutputOptions = { verbosity: 'normal', maxChars: 0, format: 'text' };
+    const { items: fitted, omitted } = await fitToBudget(items, options, render, formatText, item => item);
+    expect(fitted).toEqual([{ item: 'first' }]);
+    expect(omitted).toEqual({ count: 2, ids: ['second', 'third'] });
+  });
+
+  it('only accepts a positive whole maxChars', () => {
+    const schema = z.object(outputOptionsInput);
+    expect(schema.safeParse({ maxChars: -5 }).success).toBe(false);
+    expect(schema.safeParse({ maxChars: 0 }).success).toBe(false);
+    expect(schema.safeParse({ maxChars: 1.5 }).success).toBe(false);
+    expect(schema.safeParse({ maxChars: 5000 }).success).toBe(true);
+  });
+});
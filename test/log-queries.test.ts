@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getHmrHistory } from '../src/log-queries.js';
+import { LogStore } from '../src/log-store.js';
+import type { HmrEvent, LogEntry } from '../src/types.js';
+
+let time = Date.parse('2026-01-01T00:00:00.000Z');
+
+function addBuild(store: LogStore, id: string, source: string, hash?: string): void {
+  const build: Partial<LogEntry> = { buildId: id, issuer: 'webpack', platform: 'ios', source, ...(hash && { hash }) };
+  for (const buildEvent of ['start', 'done'] as const) {
+    store.add({ timestamp: new Date(time++).toISOString(), type: 'info', message: buildEvent, buildEvent, ...build });
+  }
+}
+
+function addHmrEvent(store: LogStore, deviceId: string, hmr: HmrEvent): void {
+  store.add({
+    timestamp: new Date(time++).toISOString(),
+    type: 'info',
+    message: `HMR ${hmr.event}`,
+    issuer: 'hmr',
+    platform: 'ios',
+    deviceId,
+    hmr,
+  });
+}
+
+describe('getHmrHistory', () => {
+  it('compares each device with the latest build of the app it runs', () => {
+    const store = new LogStore();
+    addBuild(store, 'host-1', 'host', 'h1');
+    addBuild(store, 'mini-1', 'mini', 'm1');
+    addBuild(store, 'mini-2', 'mini', 'm2');
+    addHmrEvent(store, 'host-device', { event: 'load', hash: 'h1' });
+    addHmrEvent(store, 'mini-device', { event: 'load', hash: 'm1' });
+
+    const devices = getHmrHistory(store).devices;
+    expect(devices.map(device => [device.deviceId, device.upToDate])).toEqual([
+      ['host-device', true],
+      ['mini-device', false],
+    ]);
+  });
+
+  it('reports unknown when there is no hash to compare', () => {
+    const store = new LogStore();
+    addBuild(store, 'host-1', 'host');
+    addHmrEvent(store, 'with-hash', { event: 'load', hash: 'h1' });
+    addHmrEvent(store, 'without-hash', { event: 'reload' });
+
+    expect(getHmrHistory(store).devices.map(device => device.upToDate)).toEqual([null, null]);
+  });
+});
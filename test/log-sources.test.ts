@@ -0,0 +1,124 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { globToRegExp, isGlob, LogSources } from '../src/log-sources.js';
+import { LogStore } from '../src/log-store.js';
+
+describe('globToRegExp', () => {
+  it('matches `*` and `?` within one path segment', () => {
+    const pattern = globToRegExp('/apps/*/.repack-logs.?.json');
+    expect(pattern.test('/apps/host/.repack-logs.1.json')).toBe(true);
+    expect(pattern.test('/apps/host/nested/.repack-logs.1.json')).toBe(false);
+    expect(pattern.test('/apps/host/.repack-logs.10.json')).toBe(false);
+  });
+
+  it('matches any number of directories with `**/`', () => {
+    const pattern = globToRegExp('/repo/**/.repack-logs.json');
+    expect(pattern.test('/repo/.repack-logs.json')).toBe(true);
+    expect(pattern.test('/repo/apps/mini/.repack-logs.json')).toBe(true);
+    expect(pattern.test('/other/.repack-logs.json')).toBe(false);
+  });
+
+  it('matches one of the alternatives in braces', () => {
+    const pattern = globToRegExp('/apps/{host,mini}/*.json');
+    expect(pattern.test('/apps/host/logs.json')).toBe(true);
+    expect(pattern.test('/apps/mini/logs.json')).toBe(true);
+    expect(pattern.test('/apps/other/logs.json')).toBe(false);
+  });
+
+  it('matches other characters literally', () => {
+    const pattern = globToRegExp('/apps/a+b/(logs).json');
+    expect(pattern.test('/apps/a+b/(logs).json')).toBe(true);
+    expect(pattern.test('/apps/aab/logs.json')).toBe(false);
+  });
+});
+
+describe('isGlob', () => {
+  it('tells globs from file paths', () => {
+    expect(isGlob('/apps/*/.repack-logs.json')).toBe(true);
+    expect(isGlob('/apps/{host,mini}/.repack-logs.json')).toBe(true);
+    expect(isGlob('/apps/host/.repack-logs.json')).toBe(false);
+  });
+});
+
+describe('LogSources', () => {
+  let dir: string;
+  let store: LogStore;
+  let sources: LogSources;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repack-logs-sources-'));
+    store = new LogStore();
+  });
+
+  afterEach(async () => {
+    await sources.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeLog(app: string, fileName: string, message: string): string {
+    fs.mkdirSync(path.join(dir, app), { recursive: true });
+    const filePath = path.join(dir, app, fileName);
+    fs.appendFileSync(filePath, JSON.stringify({ timestamp: '2026-01-01T00:00:00.000Z', type: 'info', message }) + '\n');
+    return filePath;
+  }
+
+  function watchedFiles(): string[] {
+    return sources.files.map(file => `${file.source}: ${path.relative(dir, file.watcher.path)}`);
+  }
+
+  it('labels the files of a glob with their directory, skipping rotated files', async () => {
+    writeLog('host', '.repack-logs.json', 'host build');
+    writeLog('host', '.repack-logs.1.json', 'previous host build');
+    writeLog('mini', '.repack-logs.json', 'mini build');
+    sources = new LogSources([{ pattern: `${dir}/*/*.json` }], store);
+    await sources.start();
+
+    expect(watchedFiles().sort()).toEqual(['host: host/.repack-logs.json', 'mini: mini/.repack-logs.json']);
+    expect(store.get().map(entry => `${entry.source}: ${entry.message}`).sort())
+      .toEqual(['host: host build', 'mini: mini build']);
+  });
+
+  it('uses the label of a labelled spec', async () => {
+    writeLog('host', '.repack-logs.json', 'host build');
+    sources = new LogSources([{ label: 'app', pattern: `${dir}/*/.repack-logs.json` }], store);
+    await sources.start();
+
+    expect(watchedFiles()).toEqual(['app: host/.repack-logs.json']);
+  });
+
+  it('picks up files created after starting, but not rotated ones', async () => {
+    sources = new LogSources([{ pattern: `${dir}/**/.repack-logs*.json` }], store);
+    await sources.start();
+
+    writeLog('mini', '.repack-logs.json', 'mini build');
+    writeLog('mini', '.repack-logs.1.json', 'previous mini build');
+    await vi.waitFor(() => expect(store.get().map(entry => entry.message)).toEqual(['mini build']), { timeout: 3000 });
+    expect(watchedFiles()).toEqual(['mini: mini/.repack-logs.json']);
+  });
+
+  it('stops watching a deleted file, and watches it again when it is recreated', async () => {
+    const filePath = writeLog('host', '.repack-logs.json', 'first build');
+    sources = new LogSources([{ pattern: `${dir}/*/.repack-logs.json` }], store);
+    await sources.start();
+
+    fs.rmSync(filePath);
+    await vi.waitFor(() => expect(sources.files).toEqual([]), { timeout: 3000 });
+
+    writeLog('host', '.repack-logs.json', 'second build');
+    await vi.waitFor(() => expect(store.get().map(entry => entry.message)).toEqual(['first build', 'second build']), {
+      timeout: 3000,
+    });
+    expect(watchedFiles()).toEqual(['host: host/.repack-logs.json']);
+  });
+
+  it('reads a single unlabelled file without a source', async () => {
+    const filePath = writeLog('host', '.repack-logs.json', 'build');
+    sources = new LogSources([{ pattern: filePath }], store);
+    await sources.start();
+
+    expect(sources.files.map(file => file.source)).toEqual([undefined]);
+    expect(store.get()[0].source).toBeUndefined();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { LogStore } from '../src/log-store.js';
+import type { LogEntry } from '../src/types.js';
+
+function entry(message: string, type: LogEntry['type'] = 'error'): LogEntry {
+  return { timestamp: new Date().toISOString(), type, message };
+}
+
+describe('LogStore', () => {
+  it('keeps the latest copies of a repeated error, and still emits every copy', () => {
+    const store = new LogStore(100, 3);
+    const emitted: LogEntry[] = [];
+    store.on('entry', added => emitted.push(added));
+
+    store.add(entry('Before the loop', 'info'));
+    for (let i = 0; i < 5; i++) store.add(entry('Render loop failed'));
+    store.add(entry('After the loop', 'info'));
+
+    expect(emitted).toHaveLength(7);
+    expect(store.get().map(log => log.id)).toEqual([1, 4, 5, 6, 7]);
+    expect(store.getErrorGroups({}).map(group => group.count)).toEqual([5]);
+  });
+
+  it('keeps copies of a repeated error again after its group is trimmed from the buffer', () => {
+    const store = new LogStore(4, 2);
+    for (let i = 0; i < 3; i++) store.add(entry('Render loop failed'));
+    for (let i = 0; i < 4; i++) store.add(entry(`Other ${i}`, 'info'));
+    for (let i = 0; i < 3; i++) store.add(entry('Render loop failed'));
+
+    expect(store.get().map(log => log.message)).toEqual(['Other 2', 'Other 3', 'Render loop failed', 'Render loop failed']);
+  });
+});
@@ -0,0 +1,56 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LogStore } from '../src/log-store.js';
+import { LogStreamSubscriber } from '../src/log-stream.js';
+import type { LogEntry } from '../src/types.js';
+
+let server: http.Server | undefined;
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+});
+
+/**
+ * Serve one stream with the given filter. Resolves once the client is
+ * connected, with what it reads until the stream ends.
+ */
+async function openStream(store: LogStore, matches: (log: LogEntry) => boolean): Promise<{ body: Promise<string> }> {
+  server = http.createServer((_req, res) => new LogStreamSubscriber(res, { store, matches }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return new Promise(connected => {
+    http.get({ host: '127.0.0.1', port, path: '/stream', agent: false }, res => {
+      let body = '';
+      const ended = new Promise<string>(resolve => res.on('end', () => resolve(body)));
+      res.on('data', chunk => { body += chunk; });
+      res.once('data', () => connected({ body: ended }));
+    });
+  });
+}
+
+function entry(message: string): LogEntry {
+  return { timestamp: '2026-01-01T00:00:00.000Z', type: 'info', message };
+}
+
+describe('LogStreamSubscriber', () => {
+  it('ends the stream when its filter throws, without failing the ingestion', async () => {
+    const store = new LogStore();
+    const stream = await openStream(store, log => {
+      if (log.message === 'bad') throw new TypeError('Cannot match');
+      return true;
+    });
+
+    store.add(entry('good'));
+    expect(() => store.add(entry('bad'))).not.toThrow();
+    store.add(entry('after'));
+
+    const body = await stream.body;
+    expect(body).toContain('"message":"good"');
+    expect(body).toContain('event: failed\ndata: {"error":"Cannot match"}\n\n');
+    expect(body).not.toContain('"message":"after"');
+    expect(store.get().map(log => log.message)).toEqual(['good', 'bad', 'after']);
+    expect(store.listenerCount('entry')).toBe(0);
+  });
+});
@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LogStore } from '../src/log-store.js';
+import { LogWatcher, toLogEntry } from '../src/log-watcher.js';
+
+let dir: string;
+let filePath: string;
+let store: LogStore;
+let watcher: LogWatcher;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repack-logs-watcher-'));
+  filePath = path.join(dir, '.repack-logs.json');
+  store = new LogStore();
+  watcher = new LogWatcher(filePath, store);
+});
+
+afterEach(async () => {
+  await watcher.stop();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function line(message: string): string {
+  return JSON.stringify({ timestamp: '2026-01-01T00:00:00.000Z', type: 'info', message }) + '\n';
+}
+
+function messages(): string[] {
+  return store.get().map(entry => entry.message);
+}
+
+/** Wait until the watcher has read the expected messages, and nothing more */
+async function expectMessages(expected: string[]): Promise<void> {
+  await vi.waitFor(() => expect(messages()).toEqual(expected), { timeout: 3000, interval: 50 });
+}
+
+describe('LogWatcher', () => {
+  it('reads the existing lines, then only the lines appended', async () => {
+    fs.writeFileSync(filePath, line('first') + line('second'));
+    await watcher.start();
+    expect(messages()).toEqual(['first', 'second']);
+
+    fs.appendFileSync(filePath, line('third'));
+    await expectMessages(['first', 'second', 'third']);
+  });
+
+  it('waits for the rest of a line written in parts', async () => {
+    await watcher.start();
+    const text = line('split line');
+    fs.writeFileSync(filePath, text.slice(0, 20));
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(messages()).toEqual([]);
+
+    fs.appendFileSync(filePath, text.slice(20));
+    await expectMessages(['split line']);
+  });
+
+  it('keeps a multibyte character split across writes intact', async () => {
+    await watcher.start();
+    const bytes = Buffer.from(line('café ✓'));
+    const split = bytes.indexOf(Buffer.from('✓')) + 1;
+    fs.writeFileSync(filePath, bytes.subarray(0, split));
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    fs.appendFileSync(filePath, bytes.subarray(split));
+    await expectMessages(['café ✓']);
+  });
+
+  it('reads a last line without a newline when stopped', async () => {
+    fs.writeFileSync(filePath, line('first') + line('last').trimEnd());
+    await watcher.start();
+    expect(messages()).toEqual(['first']);
+
+    await watcher.stop();
+    expect(messages()).toEqual(['first', 'last']);
+  });
+
+  it('reads the tail of a renamed file, then the file that replaced it', async () => {
+    fs.writeFileSync(filePath, line('old build'));
+    await watcher.start();
+
+    fs.appendFileSync(filePath, line('old build tail'));
+    fs.renameSync(filePath, path.join(dir, '.repack-logs.1.json'));
+    fs.writeFileSync(filePath, line('new build'));
+    await expectMessages(['old build', 'old build tail', 'new build']);
+
+    fs.appendFileSync(filePath, line('new build tail'));
+    await expectMessages(['old build', 'old build tail', 'new build', 'new build tail']);
+  });
+
+  it('starts over when the file is truncated', async () => {
+    fs.writeFileSync(filePath, line('old build, a longer first line'));
+    await watcher.start();
+
+    fs.writeFileSync(filePath, line('new build'));
+    await expectMessages(['old build, a longer first line', 'new build']);
+  });
+
+  it('continues where it stopped when restarted', async () => {
+    fs.writeFileSync(filePath, line('first'));
+    await watcher.start();
+    await watcher.stop();
+
+    fs.appendFileSync(filePath, line('second'));
+    await watcher.start();
+    expect(messages()).toEqual(['first', 'second']);
+  });
+
+  it('labels entries with its source and counts lines it cannot parse', async () => {
+    watcher = new LogWatcher(filePath, store, 'app');
+    fs.writeFileSync(filePath, line('labelled') + 'not json\n' + '{"type":"info"}\n');
+    await watcher.start();
+
+    expect(store.get().map(entry => entry.source)).toEqual(['app']);
+    expect(watcher.parseFailures.count).toBe(2);
+    expect(watcher.parseFailures.last?.error).toBe('Not a log entry: no "message" field');
+  });
+});
+
+describe('toLogEntry', () => {
+  it('drops the fields the LogStore assigns and normalizes the rest', () => {
+    const entry = toLogEntry({ id: 7, fingerprint: 'abc', level: 'ERROR', msg: 'Boom', source: 'server', time: 'now' });
+    expect(entry).toEqual({ timestamp: 'now', type: 'error', message: 'Boom', issuer: 'server', level: 'ERROR', msg: 'Boom', time: 'now' });
+  });
+
+  it('rejects values that are not records with a message', () => {
+    expect(toLogEntry(null)).toBeNull();
+    expect(toLogEntry(['message'])).toBeNull();
+    expect(toLogEntry({ type: 'info' })).toBeNull();
+  });
+});
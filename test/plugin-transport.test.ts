@@ -0,0 +1,165 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileTransport, HttpTransport, rotatedPath } from '../src/plugin-transport.js';
+import type { LogEntry } from '../src/types.js';
+
+let dir: string;
+let filePath: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repack-logs-transport-'));
+  filePath = path.join(dir, '.repack-logs.json');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function entry(message: string): LogEntry {
+  return { timestamp: '2026-01-01T00:00:00.000Z', type: 'info', message };
+}
+
+function readMessages(file: string): string[] {
+  if (!fs.existsSync(file)) return [];
+  return fs.readFileSync(file, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line).message);
+}
+
+describe('rotatedPath', () => {
+  it('numbers the file before its extension', () => {
+    expect(rotatedPath('/app/.repack-logs.json', 1)).toBe('/app/.repack-logs.1.json');
+    expect(rotatedPath('/app/build.log', 3)).toBe('/app/build.3.log');
+  });
+});
+
+describe('FileTransport', () => {
+  it('keeps the files of the last builds, dropping the oldest', () => {
+    const transport = new FileTransport(filePath, { clearOnStart: true, keepFiles: 2 });
+    for (const build of ['first', 'second', 'third', 'fourth']) {
+      transport.startBuild();
+      transport.write(entry(build));
+    }
+
+    expect(readMessages(filePath)).toEqual(['fourth']);
+    expect(readMessages(rotatedPath(filePath, 1))).toEqual(['third']);
+    expect(readMessages(rotatedPath(filePath, 2))).toEqual(['second']);
+    expect(fs.existsSync(rotatedPath(filePath, 3))).toBe(false);
+  });
+
+  it('does not rotate an empty file', () => {
+    const transport = new FileTransport(filePath, { clearOnStart: true, keepFiles: 2 });
+    transport.startBuild();
+    transport.write(entry('first'));
+    fs.writeFileSync(filePath, '');
+    transport.startBuild();
+
+    expect(fs.existsSync(rotatedPath(filePath, 1))).toBe(false);
+  });
+
+  it('truncates the file when no files are kept', () => {
+    const transport = new FileTransport(filePath, { clearOnStart: true, keepFiles: 0 });
+    transport.write(entry('first'));
+    transport.startBuild();
+    transport.write(entry('second'));
+
+    expect(readMessages(filePath)).toEqual(['second']);
+    expect(fs.existsSync(rotatedPath(filePath, 1))).toBe(false);
+  });
+
+  it('appends to the file without clearOnStart', () => {
+    const transport = new FileTransport(filePath, { clearOnStart: false, keepFiles: 3 });
+    transport.write(entry('first'));
+    transport.startBuild();
+    transport.writeMany([entry('second'), entry('third')]);
+
+    expect(readMessages(filePath)).toEqual(['first', 'second', 'third']);
+  });
+});
+
+describe('HttpTransport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  function createTransport(fetchMock: ReturnType<typeof vi.fn>, source?: string): HttpTransport {
+    vi.stubGlobal('fetch', fetchMock);
+    const fallback = new FileTransport(filePath, { clearOnStart: true, keepFiles: 1 });
+    return new HttpTransport('http://localhost:9090/', fallback, source);
+  }
+
+  function sentBodies(fetchMock: ReturnType<typeof vi.fn>): Array<{ source?: string; entries: LogEntry[] }> {
+    return fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+  }
+
+  it('sends a burst of entries in one request, labelled with its source', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    const transport = createTransport(fetchMock, 'app');
+    transport.write(entry('first'));
+    transport.write(entry('second'));
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:9090/build-logs');
+    expect(sentBodies(fetchMock)).toEqual([{ source: 'app', entries: [entry('first'), entry('second')] }]);
+    expect(readMessages(filePath)).toEqual([]);
+  });
+
+  it('retries while the server is down and sends the queued entries in order', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValue(new Response(null, { status: 204 }));
+    const transport = createTransport(fetchMock);
+    transport.write(entry('first'));
+    await vi.advanceTimersByTimeAsync(50);
+    transport.write(entry('second'));
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentBodies(fetchMock)[1]).toEqual({ entries: [entry('first'), entry('second')] });
+  });
+
+  it('writes queued entries to the file once the server has been down too long', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const transport = createTransport(fetchMock);
+    transport.write(entry('first'));
+    await vi.advanceTimersByTimeAsync(9000);
+    expect(readMessages(filePath)).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(6000);
+    expect(readMessages(filePath)).toEqual(['first']);
+
+    // Until the next build starts, entries go straight to the file
+    const attempts = fetchMock.mock.calls.length;
+    transport.write(entry('second'));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(readMessages(filePath)).toEqual(['first', 'second']);
+    expect(fetchMock).toHaveBeenCalledTimes(attempts);
+  });
+
+  it('tries the server again when the next build starts', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const transport = createTransport(fetchMock);
+    transport.write(entry('first'));
+    await vi.advanceTimersByTimeAsync(15000);
+
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    transport.startBuild();
+    transport.write(entry('second'));
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(sentBodies(fetchMock).at(-1)).toEqual({ entries: [entry('second')] });
+    expect(readMessages(rotatedPath(filePath, 1))).toEqual(['first']);
+  });
+
+  it('writes to the file when the queue is full', () => {
+    const fetchMock = vi.fn();
+    const transport = createTransport(fetchMock);
+    for (let i = 0; i <= 1000; i++) transport.write(entry(`entry ${i}`));
+
+    expect(readMessages(filePath)).toHaveLength(1001);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { rspack } from '@rspack/core';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RepackLogsPlugin } from '../src/plugin.js';
+import type { LogEntry } from '../src/types.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repack-logs-plugin-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function build(files: Record<string, string>): Promise<LogEntry[]> {
+  for (const [name, text] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), text);
+  const outputPath = path.join(dir, 'logs.json');
+  const compiler = rspack({
+    mode: 'development',
+    context: dir,
+    entry: './index.js',
+    output: { path: path.join(dir, 'out') },
+    plugins: [new RepackLogsPlugin({ outputPath, progress: false, bundleReport: false })],
+  });
+
+  return new Promise((resolve, reject) => {
+    compiler.run(err => {
+      compiler.close(() => {
+        if (err) return reject(err);
+        const lines = fs.readFileSync(outputPath, 'utf8').split('\n').filter(Boolean);
+        resolve(lines.map(line => JSON.parse(line)));
+      });
+    });
+  });
+}
+
+describe('RepackLogsPlugin', () => {
+  it('records the 1-based, inclusive column range of a diagnostic', async () => {
+    const entries = await build({
+      'index.js': 'import { zz } from "./b";\nconsole.log(zz);\n',
+      'b.js': 'export const a = 1;\n',
+    });
+
+    const warning = entries.find(entry => entry.type === 'warn' && entry.loc);
+    expect(warning?.filePath).toBe(path.join(dir, 'index.js'));
+    // `zz` is the 13th and 14th character of `console.log(zz);`
+    expect(warning?.loc).toEqual({ line: 2, column: 13, endLine: 2, endColumn: 14 });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuery } from '../src/query.js';
+import type { LogEntry } from '../src/types.js';
+
+const entry: LogEntry = {
+  timestamp: '2026-01-01T00:00:00.000Z',
+  type: 'error',
+  message: 'Module not found',
+  issuer: 'webpack',
+  classification: { category: 'missing-module', request: './missing' },
+};
+
+describe('parseQuery', () => {
+  it('matches fields through their aliases', () => {
+    expect(parseQuery('level:error tag:webpack')(entry)).toBe(true);
+    expect(parseQuery('category:missing-module classification.request:*missing')(entry)).toBe(true);
+    expect(parseQuery('level:warn')(entry)).toBe(false);
+  });
+
+  it('treats names of Object.prototype members as missing fields', () => {
+    for (const field of ['constructor', 'toString', '__proto__', 'classification.hasOwnProperty']) {
+      expect(parseQuery(`${field}:x`)(entry)).toBe(false);
+      expect(parseQuery(`${field}!=x`)(entry)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import http from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LogStore } from '../src/log-store.js';
+import { RuntimeServer } from '../src/runtime-server.js';
+
+let store: LogStore;
+let server: RuntimeServer;
+
+beforeEach(async () => {
+  store = new LogStore();
+  server = new RuntimeServer({ port: 19090, store });
+  await server.start();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+function request(
+  method: string,
+  path: string,
+  options: { headers?: http.OutgoingHttpHeaders; body?: string } = {},
+): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    // No keep-alive: each test starts a new server on the same port
+    const target = { host: '127.0.0.1', port: server.activePort, method, path, headers: options.headers, agent: false };
+    const req = http.request(target, res => {
+      let body = '';
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+    });
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+const buildEntry = JSON.stringify({
+  entries: [{ type: 'error', message: 'Build failed', filePath: '/tmp/secret.txt', loc: { line: 2 } }],
+});
+
+describe('POST /build-logs', () => {
+  it('adds the entries the local plugin posts', async () => {
+    const reply = await request('POST', '/build-logs', {
+      headers: { 'Content-Type': 'application/json' },
+      body: buildEntry,
+    });
+
+    expect(reply.status).toBe(200);
+    expect(store.get().map(entry => entry.message)).toEqual(['Build failed']);
+  });
+
+  it('rejects requests that do not name a loopback host', async () => {
+    const reply = await request('POST', '/build-logs', {
+      headers: { 'Content-Type': 'application/json', Host: 'evil.example' },
+      body: buildEntry,
+    });
+
+    expect(reply.status).toBe(403);
+    expect(store.get()).toEqual([]);
+  });
+
+  it('rejects bodies that are not posted as JSON, and sends no CORS headers', async () => {
+    const reply = await request('POST', '/build-logs', {
+      headers: { 'Content-Type': 'text/plain', Origin: 'http://evil.example' },
+      body: buildEntry,
+    });
+
+    expect(reply.status).toBe(415);
+    expect(reply.headers['access-control-allow-origin']).toBeUndefined();
+    expect(store.get()).toEqual([]);
+  });
+});
+
+describe('GET /health', () => {
+  it('answers web pages too', async () => {
+    const reply = await request('GET', '/health', { headers: { Origin: 'http://localhost:8081' } });
+
+    expect(reply.status).toBe(200);
+    expect(reply.headers['access-control-allow-origin']).toBe('*');
+    expect(JSON.parse(reply.body)).toEqual({ status: 'ok', logs: 0 });
+  });
+});
@@ -0,0 +1,70 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LogStore } from '../src/log-store.js';
+import { Symbolicator } from '../src/symbolicator.js';
+
+const sourceMap = JSON.stringify({ version: 3, sources: ['src/App.tsx'], names: [], mappings: 'AAAA' });
+
+let server: http.Server;
+let respond: (res: http.ServerResponse) => void;
+let requests: number;
+let store: LogStore;
+
+beforeEach(async () => {
+  requests = 0;
+  server = http.createServer((_req, res) => {
+    requests++;
+    respond(res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  store = new LogStore();
+  store.add({
+    timestamp: new Date().toISOString(),
+    type: 'info',
+    message: 'Build done',
+    issuer: 'webpack',
+    buildId: 'b1',
+    buildEvent: 'done',
+    platform: 'ios',
+    sourceMaps: [{
+      bundle: 'index.bundle',
+      path: '/nonexistent/index.bundle.map',
+      url: `http://127.0.0.1:${port}/index.bundle.map`,
+      context: '/app',
+    }],
+  });
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const stack = 'Error: Boom\n    at App (http://localhost:8081/index.bundle?platform=ios:1:1)';
+
+describe('Symbolicator', () => {
+  it('loads a map again after the dev server failed to serve it', async () => {
+    const symbolicator = new Symbolicator(store);
+    respond = res => res.writeHead(503).end();
+    expect(await symbolicator.symbolicate(stack, 'ios')).toBeNull();
+
+    respond = res => res.writeHead(200, { 'Content-Type': 'application/json' }).end(sourceMap);
+    const frames = await symbolicator.symbolicate(stack, 'ios');
+    expect(frames?.[0]).toMatchObject({ file: 'src/App.tsx', line: 1, symbolicated: true });
+
+    await symbolicator.symbolicate(stack, 'ios');
+    expect(requests).toBe(2);
+  });
+
+  it('gives up on a map the dev server holds back', async () => {
+    const symbolicator = new Symbolicator(store);
+    respond = () => {};
+    const started = Date.now();
+
+    expect(await symbolicator.symbolicate(stack, 'ios')).toBeNull();
+    expect(Date.now() - started).toBeLessThan(4500);
+  }, 10000);
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { LogStore } from '../src/log-store.js';
+import { waitForBuild, waitForLog } from '../src/wait.js';
+import type { LogEntry } from '../src/types.js';
+
+function entry(message: string, fields: Partial<LogEntry> = {}): LogEntry {
+  return { timestamp: new Date().toISOString(), type: 'info', message, ...fields };
+}
+
+describe('waitForBuild', () => {
+  it('resolves with the next build that finishes', async () => {
+    const store = new LogStore();
+    const outcome = waitForBuild(store, { timeout: 5000 });
+    store.add(entry('Compiling', { buildId: 'b1', buildEvent: 'start', issuer: 'webpack' }));
+    store.add(entry('Compiled', { buildId: 'b1', buildEvent: 'done', issuer: 'webpack' }));
+
+    expect((await outcome)?.build.id).toBe('b1');
+  });
+
+  it('stops waiting and removes its listeners when aborted', async () => {
+    const store = new LogStore();
+    const controller = new AbortController();
+    const outcome = waitForBuild(store, { timeout: 300000, signal: controller.signal });
+    expect(store.listenerCount('build')).toBe(1);
+
+    controller.abort();
+    expect(await outcome).toBeNull();
+    expect(store.listenerCount('build')).toBe(0);
+    expect(store.listenerCount('progress')).toBe(0);
+  });
+});
+
+describe('waitForLog', () => {
+  it('resolves with the next matching runtime log', async () => {
+    const store = new LogStore();
+    const log = waitForLog(store, { timeout: 5000, pattern: 'mounted' });
+    store.add(entry('App started', { issuer: 'console' }));
+    store.add(entry('Screen mounted', { issuer: 'console' }));
+
+    expect((await log)?.message).toBe('Screen mounted');
+  });
+
+  it('does not wait when the signal has already aborted', async () => {
+    const store = new LogStore();
+    const log = await waitForLog(store, { timeout: 300000, signal: AbortSignal.abort() });
+
+    expect(log).toBeNull();
+    expect(store.listenerCount('entry')).toBe(0);
+  });
+});